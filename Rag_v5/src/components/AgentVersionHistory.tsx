@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import PromptDiff from "@/components/PromptDiff";
+import { diffIds } from "@/utils/textDiff";
+import { useTranslation } from "@/i18n";
+
+interface AgentVersion {
+  id: string;
+  version_number: number;
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  rag_enabled: boolean;
+  document_ids: string[] | null;
+  top_k: number;
+  similarity_threshold: number;
+  max_context_tokens: number;
+  history_length: number;
+  chat_model: string;
+  temperature: number;
+  query_paraphrases: number;
+  reranker: string;
+  rerank_candidates: number;
+  grounding_mode: string;
+  refusal_message: string | null;
+  language_mode: string;
+  answer_language: string;
+  created_at: string;
+}
+
+// Scalar settings compared between versions; labels come from the agent form texts
+const SETTING_KEYS = [
+  "name",
+  "description",
+  "rag_enabled",
+  "chat_model",
+  "temperature",
+  "top_k",
+  "similarity_threshold",
+  "max_context_tokens",
+  "history_length",
+  "query_paraphrases",
+  "reranker",
+  "rerank_candidates",
+  "grounding_mode",
+  "refusal_message",
+  "language_mode",
+  "answer_language",
+] as const;
+
+interface AgentVersionHistoryProps {
+  agentId: string | null;
+  agentName: string;
+  documents: { id: string; title: string }[];
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const AgentVersionHistory = ({ agentId, agentName, documents, onOpenChange, onRestored }: AgentVersionHistoryProps) => {
+  const [versions, setVersions] = useState<AgentVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const fetchVersions = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("agent_versions")
+        .select("*")
+        .eq("agent_id", id)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      setVersions(data || []);
+      setSelectedId(data?.[0]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.versionHistory.loadFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t]);
+
+  useEffect(() => {
+    if (agentId) fetchVersions(agentId);
+  }, [agentId, fetchVersions]);
+
+  // Like context rollback, restoring is recorded as a new version
+  const handleRestore = async (version: AgentVersion) => {
+    if (!agentId) return;
+    setRestoring(true);
+    try {
+      const { error } = await supabase
+        .from("agents")
+        .update({
+          name: version.name,
+          description: version.description,
+          system_prompt: version.system_prompt,
+          rag_enabled: version.rag_enabled,
+          document_ids: version.document_ids || [],
+          top_k: version.top_k,
+          similarity_threshold: version.similarity_threshold,
+          max_context_tokens: version.max_context_tokens,
+          history_length: version.history_length,
+          chat_model: version.chat_model,
+          temperature: version.temperature,
+          query_paraphrases: version.query_paraphrases,
+          reranker: version.reranker,
+          rerank_candidates: version.rerank_candidates,
+          grounding_mode: version.grounding_mode,
+          refusal_message: version.refusal_message,
+          language_mode: version.language_mode,
+          answer_language: version.answer_language,
+        })
+        .eq("id", agentId);
+
+      if (error) throw error;
+
+      toast({
+        title: t.common.success,
+        description: t.versionHistory.restored(version.version_number),
+      });
+      await fetchVersions(agentId);
+      onRestored();
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.versionHistory.restoreFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const documentTitle = (id: string) => documents.find((d) => d.id === id)?.title ?? t.common.deletedDocument;
+  const formatValue = (value: unknown) =>
+    value === null || value === "" ? "—" : typeof value === "boolean" ? (value ? t.common.yes : t.common.no) : String(value);
+
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+  const changedSettings = selected && previous
+    ? SETTING_KEYS.filter((key) => previous[key] !== selected[key])
+    : [];
+  const documentChanges = selected
+    ? diffIds(previous?.document_ids || [], selected.document_ids || [])
+    : { added: [], removed: [] };
+
+  return (
+    <Dialog open={agentId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t.versionHistory.title(agentName)}</DialogTitle>
+          <DialogDescription>
+            {t.versionHistory.agentDescription}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">{t.versionHistory.empty}</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+            <div className="max-h-[28rem] overflow-y-auto space-y-1">
+              {versions.map((version, i) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full rounded p-2 text-left text-sm hover:bg-accent ${
+                    version.id === selectedId ? "bg-accent" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{t.chat.version(version.version_number)}</span>
+                    {i === 0 && <Badge variant="secondary">{t.versionHistory.current}</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(version.created_at).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="max-h-[28rem] overflow-y-auto space-y-4 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="text-muted-foreground">
+                    {previous
+                      ? t.versionHistory.changesSince(previous.version_number)
+                      : t.versionHistory.firstVersion}
+                  </p>
+                  {selectedIndex > 0 && (
+                    <Button size="sm" variant="outline" disabled={restoring} onClick={() => handleRestore(selected)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {t.versionHistory.restore}
+                    </Button>
+                  )}
+                </div>
+
+                {changedSettings.length > 0 && previous && (
+                  <div>
+                    <p className="font-medium mb-1">{t.versionHistory.settings}</p>
+                    <div className="space-y-1">
+                      {changedSettings.map((key) => (
+                        <p key={key} className="text-xs">
+                          <span className="text-muted-foreground">{t.agents.settings[key]}: </span>
+                          <span className="line-through text-muted-foreground">{formatValue(previous[key])}</span>
+                          {" → "}
+                          {formatValue(selected[key])}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <p className="font-medium mb-1">{t.common.documents}</p>
+                  {documentChanges.added.length === 0 && documentChanges.removed.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      {t.versionHistory.documentsUnchanged(selected.document_ids?.length || 0)}
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {documentChanges.added.map((id) => (
+                        <span key={id} className="text-xs px-2 py-0.5 rounded bg-green-500/15 text-green-700 dark:text-green-400">
+                          + {documentTitle(id)}
+                        </span>
+                      ))}
+                      {documentChanges.removed.map((id) => (
+                        <span key={id} className="text-xs px-2 py-0.5 rounded bg-red-500/15 text-red-700 dark:text-red-400">
+                          - {documentTitle(id)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <p className="font-medium mb-1">{t.common.systemPrompt}</p>
+                  <PromptDiff before={previous?.system_prompt || ""} after={selected.system_prompt} />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AgentVersionHistory;
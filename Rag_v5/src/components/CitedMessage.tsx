@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, Loader2 } from "lucide-react";
+import type { Citation } from "@/utils/ragChatStream";
+import { useTranslation } from "@/i18n";
+
+interface CitedMessageProps {
+  content: string;
+  citations: Citation[];
+}
+
+const CitedMessage = ({ content, citations }: CitedMessageProps) => {
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [passage, setPassage] = useState<string | null>(null);
+  const [loadingPassage, setLoadingPassage] = useState(false);
+  const { t } = useTranslation();
+
+  const openSource = async (citation: Citation) => {
+    setOpenCitation(citation);
+    setPassage(null);
+    setLoadingPassage(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("document_chunks")
+        .select("content")
+        .eq("id", citation.chunk_id)
+        .single();
+
+      if (error) throw error;
+      setPassage(data.content);
+    } catch (error) {
+      console.error("Error fetching source passage:", error);
+      // Fall back to the snippet stored with the message
+      setPassage(citation.snippet);
+    } finally {
+      setLoadingPassage(false);
+    }
+  };
+
+  // Turn inline markers like [2] into clickable footnote references
+  const renderContent = () =>
+    content.split(/(\[\d+\])/g).map((part, i) => {
+      const match = part.match(/^\[(\d+)\]$/);
+      const citation = match && citations.find((c) => c.index === Number(match[1]));
+      if (!citation) return <span key={i}>{part}</span>;
+
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => openSource(citation)}
+          className="align-super text-xs font-medium text-primary hover:underline"
+        >
+          [{citation.index}]
+        </button>
+      );
+    });
+
+  return (
+    <div className="flex-1">
+      <p className="whitespace-pre-wrap">{renderContent()}</p>
+
+      {citations.length > 0 && (
+        <div className="mt-3 pt-2 border-t space-y-1">
+          {citations.map((citation) => (
+            <button
+              key={citation.chunk_id}
+              type="button"
+              onClick={() => openSource(citation)}
+              className="flex w-full items-center gap-2 text-left text-xs text-muted-foreground hover:text-foreground"
+            >
+              <span className="font-medium text-primary">[{citation.index}]</span>
+              <FileText className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">
+                {citation.document_title}
+                {citation.page_number ? ` • ${t.citations.page(citation.page_number)}` : ""}
+                {citation.heading_path?.length ? ` • ${citation.heading_path.join(" › ")}` : ""}
+              </span>
+              <span className="ml-auto flex-shrink-0">{Math.round(citation.similarity * 100)}%</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={openCitation !== null} onOpenChange={(open) => !open && setOpenCitation(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              [{openCitation?.index}] {openCitation?.document_title}
+            </DialogTitle>
+            <DialogDescription>
+              {openCitation?.page_number ? `${t.citations.page(openCitation.page_number)} • ` : ""}
+              {openCitation?.heading_path?.length ? `${openCitation.heading_path.join(" › ")} • ` : ""}
+              {t.citations.relevance(Math.round((openCitation?.similarity ?? 0) * 100))}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto rounded-md bg-muted p-4">
+            {loadingPassage ? (
+              <Loader2 className="h-4 w-4 animate-spin mx-auto" />
+            ) : (
+              <p className="text-sm whitespace-pre-wrap">{passage}</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CitedMessage;
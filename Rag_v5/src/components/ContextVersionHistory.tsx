@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import PromptDiff from "@/components/PromptDiff";
+import { diffIds } from "@/utils/textDiff";
+import { useTranslation } from "@/i18n";
+
+interface ContextVersion {
+  id: string;
+  version_number: number;
+  name: string;
+  description: string | null;
+  document_ids: string[] | null;
+  system_prompt: string | null;
+  created_at: string | null;
+}
+
+interface ContextVersionHistoryProps {
+  contextId: string | null;
+  contextName: string;
+  documents: { id: string; title: string }[];
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const ContextVersionHistory = ({ contextId, contextName, documents, onOpenChange, onRestored }: ContextVersionHistoryProps) => {
+  const [versions, setVersions] = useState<ContextVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const fetchVersions = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("context_versions")
+        .select("id, version_number, name, description, document_ids, system_prompt, created_at")
+        .eq("context_id", id)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      setVersions(data || []);
+      setSelectedId(data?.[0]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.versionHistory.loadFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t]);
+
+  useEffect(() => {
+    if (contextId) fetchVersions(contextId);
+  }, [contextId, fetchVersions]);
+
+  // Restoring writes the old values back to the context, which the database
+  // snapshots as a new version, so history is never rewritten
+  const handleRestore = async (version: ContextVersion) => {
+    if (!contextId) return;
+    setRestoring(true);
+    try {
+      const { error } = await supabase
+        .from("contexts")
+        .update({
+          name: version.name,
+          description: version.description,
+          document_ids: version.document_ids || [],
+          system_prompt: version.system_prompt,
+        })
+        .eq("id", contextId);
+
+      if (error) throw error;
+
+      toast({
+        title: t.common.success,
+        description: t.versionHistory.restored(version.version_number),
+      });
+      await fetchVersions(contextId);
+      onRestored();
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.versionHistory.restoreFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const documentTitle = (id: string) => documents.find((d) => d.id === id)?.title ?? t.common.deletedDocument;
+
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  // Versions are sorted newest first, so the predecessor is the next entry
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+  const documentChanges = selected
+    ? diffIds(previous?.document_ids || [], selected.document_ids || [])
+    : { added: [], removed: [] };
+
+  return (
+    <Dialog open={contextId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t.versionHistory.title(contextName)}</DialogTitle>
+          <DialogDescription>
+            {t.versionHistory.contextDescription}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">{t.versionHistory.empty}</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+            <div className="max-h-[28rem] overflow-y-auto space-y-1">
+              {versions.map((version, i) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full rounded p-2 text-left text-sm hover:bg-accent ${
+                    version.id === selectedId ? "bg-accent" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{t.chat.version(version.version_number)}</span>
+                    {i === 0 && <Badge variant="secondary">{t.versionHistory.current}</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {version.created_at ? new Date(version.created_at).toLocaleString() : ""}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="max-h-[28rem] overflow-y-auto space-y-4 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="text-muted-foreground">
+                    {previous
+                      ? t.versionHistory.changesSince(previous.version_number)
+                      : t.versionHistory.firstVersion}
+                  </p>
+                  {selectedIndex > 0 && (
+                    <Button size="sm" variant="outline" disabled={restoring} onClick={() => handleRestore(selected)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {t.versionHistory.restore}
+                    </Button>
+                  )}
+                </div>
+
+                {previous && previous.name !== selected.name && (
+                  <div>
+                    <p className="font-medium mb-1">{t.common.name}</p>
+                    <p className="text-xs">
+                      <span className="line-through text-muted-foreground">{previous.name}</span> → {selected.name}
+                    </p>
+                  </div>
+                )}
+
+                {previous && (previous.description || "") !== (selected.description || "") && (
+                  <div>
+                    <p className="font-medium mb-1">{t.common.description}</p>
+                    <PromptDiff before={previous.description || ""} after={selected.description || ""} />
+                  </div>
+                )}
+
+                <div>
+                  <p className="font-medium mb-1">{t.common.documents}</p>
+                  {documentChanges.added.length === 0 && documentChanges.removed.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      {t.versionHistory.documentsUnchanged(selected.document_ids?.length || 0)}
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {documentChanges.added.map((id) => (
+                        <span key={id} className="text-xs px-2 py-0.5 rounded bg-green-500/15 text-green-700 dark:text-green-400">
+                          + {documentTitle(id)}
+                        </span>
+                      ))}
+                      {documentChanges.removed.map((id) => (
+                        <span key={id} className="text-xs px-2 py-0.5 rounded bg-red-500/15 text-red-700 dark:text-red-400">
+                          - {documentTitle(id)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <p className="font-medium mb-1">{t.common.systemPrompt}</p>
+                  <PromptDiff before={previous?.system_prompt || ""} after={selected.system_prompt || ""} />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContextVersionHistory;
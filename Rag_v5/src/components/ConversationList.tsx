@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { MessageSquare, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/i18n";
 
 interface Conversation {
   id: string;
@@ -16,6 +17,7 @@ const ConversationList = () => {
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, t } = useTranslation();
 
   useEffect(() => {
     fetchConversations();
@@ -33,7 +35,7 @@ const ConversationList = () => {
       setConversations(data || []);
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -52,14 +54,14 @@ const ConversationList = () => {
       if (error) throw error;
 
       toast({
-        title: "Conversation deleted",
-        description: "The conversation has been removed successfully.",
+        title: t.conversations.deleted,
+        description: t.conversations.deletedDescription,
       });
 
       fetchConversations();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -67,21 +69,21 @@ const ConversationList = () => {
   };
 
   const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-US", {
+    return new Date(date).toLocaleDateString(language, {
       month: "short",
       day: "numeric",
     });
   };
 
   if (loading) {
-    return <div className="text-center text-muted-foreground">Loading...</div>;
+    return <div className="text-center text-muted-foreground">{t.common.loading}</div>;
   }
 
   if (conversations.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
         <MessageSquare className="h-12 w-12 mx-auto mb-2 opacity-50" />
-        <p>No conversations yet</p>
+        <p>{t.conversations.empty}</p>
       </div>
     );
   }
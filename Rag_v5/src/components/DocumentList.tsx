@@ -1,14 +1,30 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { FileText, Trash2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, FileText, Globe, RefreshCw, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { type Language, useTranslation } from "@/i18n";
+import { SYNC_INTERVALS, syncIntervalName } from "@/lib/sync";
 
 interface Document {
   id: string;
   title: string;
   file_size: number;
   status: string;
+  // Share of chunks embedded so far, 0-100
+  processing_progress: number | null;
+  error_message: string | null;
+  // Detected during processing; null while processing or when undetermined
+  language: string | null;
+  // Set for documents added from a web page
+  source_url: string | null;
+  fetched_at: string | null;
+  // Refresh schedule of web documents; null when never re-synced
+  sync_interval_hours: number | null;
+  last_synced_at: string | null;
+  last_sync_error: string | null;
   created_at: string;
 }
 
@@ -16,11 +32,61 @@ const DocumentList = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
+  const { language, t } = useTranslation();
+  // Latest list for the realtime handler, which compares old and new status
+  const documentsRef = useRef<Document[]>([]);
+
+  useEffect(() => {
+    documentsRef.current = documents;
+  }, [documents]);
 
   useEffect(() => {
     fetchDocuments();
   }, []);
 
+  // Applies document changes as they happen and reports finished processing
+  useEffect(() => {
+    const channel = supabase
+      .channel("documents-changes")
+      .on<Document>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "documents" },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            setDocuments((docs) => docs.filter((doc) => doc.id !== payload.old.id));
+            return;
+          }
+
+          const updated = payload.new;
+          const previous = documentsRef.current.find((doc) => doc.id === updated.id);
+
+          if (previous?.status === "processing" && updated.status === "completed") {
+            toast({
+              title: t.documents.processingCompleted,
+              description: updated.title,
+            });
+          } else if (previous?.status === "processing" && updated.status === "failed") {
+            toast({
+              title: t.documents.processingFailed,
+              description: updated.title,
+              variant: "destructive",
+            });
+          }
+
+          setDocuments((docs) =>
+            previous
+              ? docs.map((doc) => (doc.id === updated.id ? { ...doc, ...updated } : doc))
+              : [updated, ...docs],
+          );
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [t, toast]);
+
   const fetchDocuments = async () => {
     try {
       const { data, error } = await supabase
@@ -32,7 +98,7 @@ const DocumentList = () => {
       setDocuments(data || []);
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -51,20 +117,102 @@ const DocumentList = () => {
       if (error) throw error;
 
       toast({
-        title: "Document deleted",
-        description: "The document has been removed successfully.",
+        title: t.documents.deleted,
+        description: t.documents.deletedDescription,
       });
 
       fetchDocuments();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
+  // Queues re-chunking and re-embedding of the given documents; their current
+  // chunks stay searchable until the new ones replace them
+  const handleReprocess = async (ids: string[]) => {
+    setDocuments((docs) => docs.map((doc) => (ids.includes(doc.id) ? { ...doc, status: "processing", processing_progress: 0 } : doc)));
+
+    try {
+      const { data, error } = await supabase.functions.invoke("reprocess-document", {
+        body: { document_ids: ids },
+      });
+
+      if (error) throw error;
+
+      const results: { status: string }[] = data?.results ?? [];
+      const queued = results.filter((result) => result.status === "queued").length;
+      const skipped = results.length - queued;
+
+      if (queued > 0) {
+        // Start a worker right away instead of waiting for the scheduled run
+        void supabase.functions.invoke("process-worker");
+      }
+
+      if (skipped > 0) {
+        toast({
+          title: t.common.error,
+          description: t.documents.reprocessSkipped(skipped),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: t.common.success,
+          description: t.documents.reprocessQueued(queued),
+        });
+      }
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      fetchDocuments();
+    }
+  };
+
+  // Sets how often a web document is fetched again, starting one interval from now
+  const handleSyncIntervalChange = async (id: string, name: string) => {
+    const hours = SYNC_INTERVALS[name];
+
+    try {
+      const { error } = await supabase
+        .from("documents")
+        .update({
+          sync_interval_hours: hours,
+          next_sync_at: hours ? new Date(Date.now() + hours * 3600 * 1000).toISOString() : null,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+
+      setDocuments((docs) => docs.map((doc) => (doc.id === id ? { ...doc, sync_interval_hours: hours } : doc)));
+      toast({
+        title: t.common.success,
+        description: t.documents.syncIntervalUpdated,
+      });
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString(language, { dateStyle: "medium", timeStyle: "short" });
+
+  // The snapshot taken when a web document was added counts as its first sync
+  const lastSyncedLabel = (doc: Document) => {
+    const syncedAt = doc.last_synced_at ?? doc.fetched_at;
+    return syncedAt ? t.documents.lastSynced(formatDateTime(syncedAt)) : null;
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
@@ -72,41 +220,118 @@ const DocumentList = () => {
   };
 
   if (loading) {
-    return <div className="text-center text-muted-foreground">Loading documents...</div>;
+    return <div className="text-center text-muted-foreground">{t.documents.loading}</div>;
   }
 
   if (documents.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
         <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
-        <p>No documents uploaded yet</p>
+        <p>{t.documents.empty}</p>
       </div>
     );
   }
 
+  const reprocessableIds = documents.filter((doc) => doc.status !== "processing").map((doc) => doc.id);
+
   return (
     <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => handleReprocess(reprocessableIds)}
+          disabled={reprocessableIds.length === 0}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {t.documents.reprocessAll}
+        </Button>
+      </div>
       {documents.map((doc) => (
         <div
           key={doc.id}
           className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
         >
           <div className="flex items-center gap-3 flex-1">
-            <FileText className="h-5 w-5 text-primary" />
+            {doc.source_url ? (
+              <Globe className="h-5 w-5 text-primary" />
+            ) : (
+              <FileText className="h-5 w-5 text-primary" />
+            )}
             <div className="flex-1">
               <p className="font-medium">{doc.title}</p>
               <p className="text-sm text-muted-foreground">
-                {formatFileSize(doc.file_size || 0)} • {doc.status}
+                {formatFileSize(doc.file_size || 0)} • {t.documents.status[doc.status] ?? doc.status}
+                {doc.status === "processing" && ` • ${doc.processing_progress ?? 0}%`}
+                {doc.language && ` • ${t.language[doc.language as Language] ?? doc.language}`}
+                {doc.source_url && (
+                  <>
+                    {" • "}
+                    <a href={doc.source_url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {new URL(doc.source_url).hostname}
+                    </a>
+                  </>
+                )}
               </p>
+              {doc.source_url && (
+                <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex-1">{lastSyncedLabel(doc)}</span>
+                  <Select
+                    value={syncIntervalName(doc.sync_interval_hours)}
+                    onValueChange={(name) => handleSyncIntervalChange(doc.id, name)}
+                  >
+                    <SelectTrigger className="h-7 w-36 text-xs" aria-label={t.documents.syncInterval}>
+                      <SelectValue
+                        placeholder={
+                          doc.sync_interval_hours ? t.documents.syncIntervalHours(doc.sync_interval_hours) : undefined
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(SYNC_INTERVALS).map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {t.documents.syncInterval}: {t.documents.syncIntervals[name]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {doc.last_sync_error && (
+                <p className="mt-1 text-xs text-destructive">{t.documents.syncFailed(doc.last_sync_error)}</p>
+              )}
+              {doc.status === "processing" && (
+                <Progress value={doc.processing_progress ?? 0} className="mt-2 h-1.5 bg-background" />
+              )}
+              {doc.status === "failed" && (
+                <div className="mt-1 flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span className="flex-1">{doc.error_message ?? t.documents.processingFailed}</span>
+                  <Button variant="outline" size="sm" onClick={() => handleReprocess([doc.id])}>
+                    {t.documents.retry}
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => handleDelete(doc.id)}
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleReprocess([doc.id])}
+              disabled={doc.status === "processing"}
+              title={t.documents.reprocess}
+            >
+              <RefreshCw className={doc.status === "processing" ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(doc.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       ))}
     </div>
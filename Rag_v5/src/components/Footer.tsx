@@ -1,6 +1,9 @@
 import caroLogo from "@/assets/caro-logo.png";
+import { useTranslation } from "@/i18n";
 
 const Footer = () => {
+  const { t } = useTranslation();
+
   return (
     <footer className="border-t border-border bg-card mt-auto">
       <div className="container mx-auto px-4 py-6">
@@ -11,7 +14,7 @@ const Footer = () => {
             className="h-16 w-auto object-contain"
           />
           <p className="text-sm text-muted-foreground">
-            Sponsored by Caro Garten- und Landschaftsbau
+            {t.footer.sponsoredBy}
           </p>
         </div>
       </div>
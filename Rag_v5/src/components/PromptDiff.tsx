@@ -0,0 +1,37 @@
+import { diffLines } from "@/utils/textDiff";
+import { useTranslation } from "@/i18n";
+
+interface PromptDiffProps {
+  before: string;
+  after: string;
+}
+
+const PromptDiff = ({ before, after }: PromptDiffProps) => {
+  const { t } = useTranslation();
+
+  if (before === after) {
+    return <p className="text-xs text-muted-foreground">{t.versionHistory.noPromptChanges}</p>;
+  }
+
+  return (
+    <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs whitespace-pre-wrap">
+      {diffLines(before, after).map((line, i) => (
+        <div
+          key={i}
+          className={
+            line.type === "added"
+              ? "bg-green-500/15 text-green-700 dark:text-green-400"
+              : line.type === "removed"
+                ? "bg-red-500/15 text-red-700 dark:text-red-400 line-through"
+                : "text-muted-foreground"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+export default PromptDiff;
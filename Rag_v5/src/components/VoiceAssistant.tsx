@@ -5,6 +5,7 @@ import { X, Mic, MicOff, Volume2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { GeminiAudioRecorder, AudioQueue, encodeAudioForAPI } from "@/utils/RealtimeAudio";
+import { useTranslation } from "@/i18n";
 
 interface VoiceAssistantProps {
   isOpen: boolean;
@@ -18,12 +19,18 @@ interface GeminiMessage {
   parts: Array<{ text?: string }>;
 }
 
+interface TranscriptEntry {
+  role: "user" | "assistant";
+  text: string;
+}
+
 const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAssistantProps) => {
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [isConnected, setIsConnected] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isListening, setIsListening] = useState(false);
-  const [transcript, setTranscript] = useState<string[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
 
   const wsRef = useRef<WebSocket | null>(null);
   const audioRecorderRef = useRef<GeminiAudioRecorder | null>(null);
@@ -73,11 +80,11 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
       });
 
       if (configError || !configData?.api_key) {
-        throw new Error(configError?.message || "Failed to get Gemini config");
+        throw new Error(configError?.message || t.voice.configFailed);
       }
 
       console.log("✅ Gemini config received");
-      const { api_key, system_instruction, model } = configData;
+      const { api_key, system_instruction, model, temperature } = configData;
 
       // Connect to Gemini Realtime API
       console.log("🔌 Connecting to Gemini Realtime API...");
@@ -95,6 +102,7 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
             model: `models/${model}`,
             generation_config: {
               response_modalities: ["AUDIO"],
+              ...(temperature !== null && temperature !== undefined && { temperature }),
                 speech_config: {
                   voice_config: {
                     prebuilt_voice_config: {
@@ -116,8 +124,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
         await startAudioRecording();
 
         toast({
-          title: "Verbunden",
-          description: "Gemini Voice Assistant ist bereit",
+          title: t.voice.connected,
+          description: t.voice.connectedDescription,
         });
       };
 
@@ -175,7 +183,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
               console.log("✅ Turn complete, stopping speaking state");
               setIsSpeaking(false);
               if (currentResponseRef.current) {
-                setTranscript((prev) => [...prev, `Assistent: ${currentResponseRef.current}`]);
+                const text = currentResponseRef.current;
+                setTranscript((prev) => [...prev, { role: "assistant", text }]);
                 conversationHistoryRef.current.push({
                   role: "model",
                   parts: [{ text: currentResponseRef.current }],
@@ -203,8 +212,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
       wsRef.current.onerror = (error) => {
         console.error("❌ WebSocket error:", error);
         toast({
-          title: "Verbindungsfehler",
-          description: "Verbindung zum Voice Assistant fehlgeschlagen",
+          title: t.voice.connectionError,
+          description: t.voice.connectionErrorDescription,
           variant: "destructive",
         });
       };
@@ -227,8 +236,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
           console.log(`🔄 Attempting reconnection ${reconnectAttemptsRef.current}/${maxReconnectAttempts}...`);
 
           toast({
-            title: "Verbindung unterbrochen",
-            description: `Versuche erneut zu verbinden (${reconnectAttemptsRef.current}/${maxReconnectAttempts})...`,
+            title: t.voice.connectionLost,
+            description: t.voice.reconnecting(reconnectAttemptsRef.current, maxReconnectAttempts),
           });
 
           reconnectTimeoutRef.current = setTimeout(() => {
@@ -238,8 +247,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
           }, 2000 * reconnectAttemptsRef.current);
         } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
           toast({
-            title: "Verbindung fehlgeschlagen",
-            description: "Maximale Anzahl von Wiederverbindungsversuchen erreicht. Bitte schließen und erneut öffnen.",
+            title: t.voice.connectionFailed,
+            description: t.voice.maxReconnects,
             variant: "destructive",
           });
         }
@@ -247,8 +256,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
     } catch (error) {
       console.error("Connection error:", error);
       toast({
-        title: "Fehler",
-        description: error instanceof Error ? error.message : "Verbindung fehlgeschlagen",
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.voice.connectionFailed,
         variant: "destructive",
       });
     }
@@ -285,8 +294,8 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
     } catch (error) {
       console.error("❌ Failed to start audio recording:", error);
       toast({
-        title: "Mikrofon-Fehler",
-        description: error instanceof Error ? error.message : "Mikrofon konnte nicht gestartet werden",
+        title: t.voice.microphoneError,
+        description: error instanceof Error ? error.message : t.voice.microphoneStartFailed,
         variant: "destructive",
       });
     }
@@ -338,25 +347,25 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
       <div className="border-b border-border bg-card p-4">
         <div className="container mx-auto flex items-center justify-between">
           <div className="flex items-center gap-4">
-            <h1 className="text-2xl font-bold">Verbotic CONTEXA Voice Assistant</h1>
+            <h1 className="text-2xl font-bold">{t.voice.title}</h1>
             {isConnected && (
               <div className="flex items-center gap-2">
                 {isListening && (
                   <div className="flex items-center gap-2 text-primary">
                     <Mic className="h-5 w-5 animate-pulse" />
-                    <span className="text-sm">Hört zu...</span>
+                    <span className="text-sm">{t.voice.listening}</span>
                   </div>
                 )}
                 {isSpeaking && (
                   <div className="flex items-center gap-2 text-accent">
                     <Volume2 className="h-5 w-5 animate-pulse" />
-                    <span className="text-sm">Spricht...</span>
+                    <span className="text-sm">{t.voice.speaking}</span>
                   </div>
                 )}
                 {!isListening && !isSpeaking && (
                   <div className="flex items-center gap-2 text-muted-foreground">
                     <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-                    <span className="text-sm">Bereit</span>
+                    <span className="text-sm">{t.voice.ready}</span>
                   </div>
                 )}
               </div>
@@ -389,16 +398,14 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
                 </div>
               )}
             </div>
-            <h2 className="text-2xl font-bold mb-2">{isConnected ? "Verbotic CONTEXA Voice Assistant aktiv" : "Verbinde..."}</h2>
+            <h2 className="text-2xl font-bold mb-2">{isConnected ? t.voice.active : t.voice.connecting}</h2>
             <p className="text-muted-foreground mb-4">
-              {isConnected
-                ? "Sprechen Sie einfach los - der Assistent hört zu und antwortet automatisch"
-                : "Bitte warten Sie, während die Verbindung hergestellt wird"}
+              {isConnected ? t.voice.activeHint : t.voice.connectingHint}
             </p>
             {ragEnabled && (
               <div className="inline-flex items-center gap-2 px-4 py-2 bg-primary/10 rounded-full">
                 <div className="h-2 w-2 rounded-full bg-green-500" />
-                <span className="text-sm font-medium">RAG aktiviert - Zugriff auf Dokumente</span>
+                <span className="text-sm font-medium">{t.voice.ragActive}</span>
               </div>
             )}
           </Card>
@@ -406,14 +413,16 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
           {/* Transcript */}
           {transcript.length > 0 && (
             <Card className="p-6">
-              <h3 className="text-lg font-semibold mb-4">Gesprächsverlauf</h3>
+              <h3 className="text-lg font-semibold mb-4">{t.voice.transcript}</h3>
               <div className="space-y-3 max-h-96 overflow-y-auto">
-                {transcript.map((text, index) => (
+                {transcript.map((entry, index) => (
                   <div
                     key={index}
-                    className={`p-3 rounded-lg ${text.startsWith("Sie:") ? "bg-primary/10 ml-8" : "bg-muted mr-8"}`}
+                    className={`p-3 rounded-lg ${entry.role === "user" ? "bg-primary/10 ml-8" : "bg-muted mr-8"}`}
                   >
-                    <p className="text-sm whitespace-pre-wrap">{text}</p>
+                    <p className="text-sm whitespace-pre-wrap">
+                      {entry.role === "user" ? t.voice.you : t.voice.assistant}: {entry.text}
+                    </p>
                   </div>
                 ))}
               </div>
@@ -426,7 +435,7 @@ const VoiceAssistant = ({ isOpen, onClose, conversationId, ragEnabled }: VoiceAs
       <div className="border-t border-border bg-card/50 p-4">
         <div className="container mx-auto max-w-4xl text-center">
           <p className="text-sm text-muted-foreground">
-            💡 Powered by Verbotic - Native Audio Preview
+            {t.voice.poweredBy}
           </p>
         </div>
       </div>
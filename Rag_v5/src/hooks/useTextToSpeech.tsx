@@ -1,9 +1,11 @@
 import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/i18n';
 
 export const useTextToSpeech = () => {
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   const speak = useCallback(async (text: string, voice: string = 'alloy') => {
     try {
@@ -37,12 +39,12 @@ export const useTextToSpeech = () => {
     } catch (error) {
       console.error('Error in TTS:', error);
       toast({
-        title: 'Fehler',
-        description: 'Sprachausgabe fehlgeschlagen',
+        title: t.common.error,
+        description: t.speech.playbackFailed,
         variant: 'destructive',
       });
     }
-  }, [toast]);
+  }, [toast, t]);
 
   return { speak };
 };
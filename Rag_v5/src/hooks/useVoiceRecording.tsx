@@ -1,6 +1,7 @@
 import { useState, useRef, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/i18n';
 
 export const useVoiceRecording = () => {
   const [isRecording, setIsRecording] = useState(false);
@@ -8,6 +9,7 @@ export const useVoiceRecording = () => {
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const audioChunks = useRef<Blob[]>([]);
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   const startRecording = useCallback(async () => {
     try {
@@ -26,12 +28,12 @@ export const useVoiceRecording = () => {
     } catch (error) {
       console.error('Error accessing microphone:', error);
       toast({
-        title: 'Fehler',
-        description: 'Mikrofonzugriff verweigert',
+        title: t.common.error,
+        description: t.speech.microphoneDenied,
         variant: 'destructive',
       });
     }
-  }, [toast]);
+  }, [toast, t]);
 
   const stopRecording = useCallback(async (): Promise<string | null> => {
     if (!mediaRecorder.current || mediaRecorder.current.state !== 'recording') {
@@ -59,8 +61,8 @@ export const useVoiceRecording = () => {
             if (error) {
               console.error('Transcription error:', error);
               toast({
-                title: 'Fehler',
-                description: 'Spracherkennung fehlgeschlagen',
+                title: t.common.error,
+                description: t.speech.transcriptionFailed,
                 variant: 'destructive',
               });
               resolve(null);
@@ -75,8 +77,8 @@ export const useVoiceRecording = () => {
         } catch (error) {
           console.error('Error processing audio:', error);
           toast({
-            title: 'Fehler',
-            description: 'Audio-Verarbeitung fehlgeschlagen',
+            title: t.common.error,
+            description: t.speech.audioProcessingFailed,
             variant: 'destructive',
           });
           setIsProcessing(false);
@@ -89,7 +91,7 @@ export const useVoiceRecording = () => {
 
       mediaRecorder.current!.stop();
     });
-  }, [toast]);
+  }, [toast, t]);
 
   return {
     isRecording,
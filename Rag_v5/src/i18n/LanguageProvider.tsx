@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getMessages, LanguageContext, resolveLanguage, type Language } from "@/i18n";
+
+const STORAGE_KEY = "language";
+
+// Before sign-in the last used language applies, or the browser's
+const initialLanguage = (): Language =>
+  resolveLanguage(localStorage.getItem(STORAGE_KEY) ?? navigator.language);
+
+const LanguageProvider = ({ children }: { children: ReactNode }) => {
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+
+  useEffect(() => {
+    const loadPreference = async (userId: string) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("language")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching language preference:", error);
+      } else if (data) {
+        setLanguageState(resolveLanguage(data.language));
+      }
+    };
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if ((event === "INITIAL_SESSION" || event === "SIGNED_IN") && session?.user) {
+        // Deferred so the query does not run inside the auth callback
+        const userId = session.user.id;
+        setTimeout(() => loadPreference(userId), 0);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // The profile is the source of truth once signed in, so edge functions answer in the same language
+  const setLanguage = useCallback(async (next: Language) => {
+    setLanguageState(next);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.from("profiles").update({ language: next }).eq("id", user.id);
+    if (error) console.error("Error saving language preference:", error);
+  }, []);
+
+  const value = useMemo(() => ({ language, setLanguage, t: getMessages(language) }), [language, setLanguage]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export default LanguageProvider;
@@ -0,0 +1,336 @@
+// German UI texts. The English bundle must provide the same keys.
+export const de = {
+  common: {
+    error: "Fehler",
+    success: "Erfolg",
+    cancel: "Abbrechen",
+    loading: "Wird geladen...",
+    yes: "Ja",
+    no: "Nein",
+    name: "Name",
+    description: "Beschreibung",
+    systemPrompt: "System Prompt",
+    documents: "Dokumente",
+    more: (count: number) => `+${count} mehr`,
+    selectedCount: (count: number) => `${count} ausgewählt`,
+    selectDocuments: "Dokumente auswählen",
+    noDocumentsAvailable: "Keine Dokumente verfügbar. Laden Sie zuerst Dokumente hoch.",
+    deletedDocument: "Gelöschtes Dokument",
+    unknownDocument: "Unbekanntes Dokument",
+    notAuthenticated: "Nicht angemeldet",
+  },
+  language: {
+    label: "Sprache",
+    de: "Deutsch",
+    en: "English",
+  },
+  index: {
+    heroAlt: "KI-Technologie",
+    tagline: "Laden Sie Ihre Dokumente hoch und chatten Sie mit einer KI, die auf Retrieval-Augmented Generation basiert",
+    getStarted: "Loslegen",
+    uploadTitle: "Dokumente hochladen",
+    uploadDescription: "Laden Sie PDF-Dokumente mit dem Wissen hoch, auf das die KI zugreifen soll",
+    processingTitle: "KI-Verarbeitung",
+    processingDescription: "Dokumente werden mit moderner Vektorsuche verarbeitet und eingebettet",
+    chatTitle: "Chatten & Fragen",
+    chatDescription: "Stellen Sie Fragen und erhalten Sie präzise Antworten auf Basis Ihrer Dokumente",
+    features: "Funktionen",
+    secureTitle: "Sicher & privat",
+    secureDescription: "Ihre Dokumente werden sicher gespeichert und sind nur für Sie zugänglich",
+    contextTitle: "Kontextverwaltung",
+    contextDescription: "Erstellen und verwalten Sie Kontexte mit ausgewählten Dokumenten",
+    historyTitle: "Chatverlauf",
+    historyDescription: "Alle Unterhaltungen werden mit Versionierung gespeichert",
+  },
+  auth: {
+    subtitle: "Melden Sie sich an oder erstellen Sie ein neues Konto",
+    signIn: "Anmelden",
+    signUp: "Registrieren",
+    email: "E-Mail",
+    emailPlaceholder: "sie@beispiel.de",
+    password: "Passwort",
+    fullName: "Vollständiger Name",
+    fullNamePlaceholder: "Max Mustermann",
+    accountCreated: "Konto erstellt!",
+    accountCreatedDescription: "Sie können sich jetzt mit Ihren Zugangsdaten anmelden.",
+  },
+  notFound: {
+    message: "Hoppla! Seite nicht gefunden",
+    returnHome: "Zur Startseite",
+  },
+  footer: {
+    sponsoredBy: "Gesponsert von Caro Garten- und Landschaftsbau",
+  },
+  dashboard: {
+    documentsTitle: "Dokumente",
+    documentsDescription: "Laden Sie Ihre PDF-Dokumente für RAG hoch und verwalten Sie sie",
+    upload: "Hochladen",
+    addUrl: "URL hinzufügen",
+    conversationsTitle: "Unterhaltungen",
+    conversationsDescription: "Ihr Chatverlauf",
+    newChat: "Neu",
+    signOut: "Abmelden",
+    quickStart: "Schnellstart",
+    quickStartDescription: "Erste Schritte mit Ihrem Verbotic CONTEXA Assistenten",
+    uploadStepTitle: "1. Dokumente hochladen",
+    uploadStepDescription: "Laden Sie PDF-Dokumente mit dem Wissen hoch, das die KI nutzen soll",
+    agentsStepTitle: "2. Agenten erstellen",
+    agentsStepDescription: "Konfigurieren Sie KI-Agenten mit eigenem Verhalten und RAG-Einstellungen",
+    manageAgents: "Agenten verwalten →",
+    contextsStepTitle: "3. Kontexte definieren",
+    contextsStepDescription: "Bündeln Sie Dokumente und Anweisungen zu Kontexten, die Sie pro Unterhaltung wählen",
+    manageContexts: "Kontexte verwalten →",
+    chatStepTitle: "4. Unterhaltung starten",
+    chatStepDescription: "Starten Sie einen neuen Chat und stellen Sie Fragen zu Ihren Dokumenten",
+  },
+  documents: {
+    loading: "Dokumente werden geladen...",
+    empty: "Noch keine Dokumente hochgeladen",
+    deleted: "Dokument gelöscht",
+    deletedDescription: "Das Dokument wurde erfolgreich entfernt.",
+    reprocess: "Neu verarbeiten",
+    reprocessAll: "Alle neu verarbeiten",
+    reprocessQueued: (count: number) => `${count} Dokument(e) zur Neuverarbeitung eingereiht`,
+    reprocessSkipped: (count: number) => `${count} Dokument(e) übersprungen, da nicht gefunden oder bereits in Verarbeitung`,
+    retry: "Erneut versuchen",
+    processingCompleted: "Dokument ist bereit",
+    processingFailed: "Verarbeitung fehlgeschlagen",
+    lastSynced: (date: string) => `Zuletzt synchronisiert: ${date}`,
+    syncFailed: (error: string) => `Synchronisierung fehlgeschlagen: ${error}`,
+    syncInterval: "Aktualisierung",
+    syncIntervals: {
+      never: "Nie",
+      daily: "Täglich",
+      weekly: "Wöchentlich",
+      monthly: "Monatlich",
+    } as Record<string, string>,
+    syncIntervalHours: (hours: number) => `Alle ${hours} Std.`,
+    syncIntervalUpdated: "Aktualisierungsplan gespeichert",
+    status: {
+      processing: "In Verarbeitung",
+      completed: "Fertig",
+      failed: "Fehlgeschlagen",
+    } as Record<string, string>,
+  },
+  conversations: {
+    empty: "Noch keine Unterhaltungen",
+    deleted: "Unterhaltung gelöscht",
+    deletedDescription: "Die Unterhaltung wurde erfolgreich entfernt.",
+  },
+  upload: {
+    title: "Dokument hochladen",
+    description: "Laden Sie Dokumente, Foliensätze, Tabellen, E-Mails oder gescannte Bilder für Ihren Verbotic CONTEXA Assistenten hoch",
+    documentTitle: "Dokumenttitel",
+    titlePlaceholder: "Dokumenttitel eingeben",
+    embeddingModel: "Embedding-Modell",
+    embeddingModels: {
+      default: "Standard",
+      local: "On-Premises (lokaler Server)",
+    } as Record<string, string>,
+    embeddingModelHint: "Vertrauliche Dokumente mit dem lokalen Modell verarbeiten, damit ihr Inhalt das Haus nicht verlässt",
+    fileUpload: "Datei-Upload",
+    dropHere: "Datei hier ablegen",
+    dragHere: "Datei hierher ziehen",
+    browse: "oder klicken, um eine Datei auszuwählen",
+    supportedFormats: "Unterstützte Formate: PDF, TXT, CSV, DOCX, Markdown, HTML, PPTX, XLSX, ODT, EML, PNG, JPEG, TIFF",
+    selectedFile: "Ausgewählte Datei:",
+    uploading: "Wird hochgeladen...",
+    submit: "Dokument hochladen",
+    invalidType: "Ungültiger Dateityp",
+    invalidTypeDescription: "Dieser Dateityp wird nicht unterstützt",
+    cancelled: "Upload abgebrochen",
+    cancelledDescription: "Der Upload wurde abgebrochen",
+    missingFields: "Bitte wählen Sie eine Datei aus und geben Sie einen Titel ein",
+    started: "Dokument hochgeladen, die Verarbeitung wurde gestartet",
+  },
+  addUrl: {
+    title: "URL hinzufügen",
+    description: "Fügen Sie eine Webseite oder alle Seiten einer Sitemap als Dokumente hinzu",
+    mode: "Quelle",
+    modes: {
+      page: "Einzelne Seite",
+      sitemap: "Sitemap",
+    } as Record<string, string>,
+    url: "Seiten-URL",
+    sitemapUrl: "Sitemap-URL",
+    documentTitle: "Dokumenttitel (optional)",
+    titlePlaceholder: "Standardmäßig der Titel der Seite",
+    maxPages: "Maximale Seitenzahl",
+    maxDepth: "Maximale Tiefe",
+    maxDepthHint: "Wie viele Ebenen verschachtelter Sitemaps verfolgt werden",
+    allowedDomains: "Erlaubte Domains",
+    allowedDomainsHint: "Kommagetrennt, inklusive Subdomains. Leer lassen, um nur Seiten der Sitemap-Domain aufzunehmen",
+    syncIntervalHint: "Geänderte Seiten werden erneut abgerufen und nur ihre geänderten Abschnitte neu eingebettet",
+    invalidUrl: "Bitte geben Sie eine http- oder https-URL ein",
+    submitting: "Seiten werden abgerufen...",
+    submit: "Hinzufügen",
+    added: (count: number) => `${count} Seite(n) hinzugefügt, die Verarbeitung wurde gestartet.`,
+    failed: (count: number) => `${count} Seite(n) konnten nicht abgerufen werden.`,
+    noPages: "Die Sitemap enthält keine passenden Seiten",
+  },
+  chat: {
+    title: "Chat",
+    ragActive: "🟢 RAG aktiv",
+    ragInactive: "⚪ RAG inaktiv",
+    ttsAuto: "🔊 Vorlesen automatisch",
+    ttsManual: "🔇 Vorlesen manuell",
+    selectAgent: "Agent auswählen",
+    defaultAgent: "Standard",
+    selectContext: "Kontext auswählen",
+    noContext: "Kein Kontext",
+    selectVersion: "Version auswählen",
+    latestVersion: "Neueste Version",
+    version: (number: number) => `Version ${number}`,
+    voiceAssistant: "Sprachassistent",
+    empty: "Schreiben Sie unten eine Nachricht, um die Unterhaltung zu beginnen",
+    inputPlaceholder: "Nachricht eingeben oder Mikrofon verwenden...",
+    conversationTitle: (date: string) => `Chat ${date}`,
+  },
+  citations: {
+    page: (page: number) => `Seite ${page}`,
+    relevance: (percent: number) => `Relevanz: ${percent}%`,
+  },
+  agents: {
+    title: "Agenten",
+    newAgent: "Neuer Agent",
+    editAgent: "Agent bearbeiten",
+    createAgent: "Neuen Agenten erstellen",
+    formDescription: "Legen Sie Verhalten und Fähigkeiten Ihres KI-Agenten fest",
+    namePlaceholder: "z. B. Recherche-Assistent",
+    descriptionPlaceholder: "Kurze Beschreibung des Zwecks des Agenten",
+    systemPromptPlaceholder: "Du bist ein hilfreicher Assistent, der...",
+    enableRag: "RAG aktivieren (Dokumentenzugriff)",
+    knowledgeBase: "Wissensbasis-Dokumente",
+    retrievalSettings: "Retrieval-Einstellungen",
+    retrievalDescription: "Steuern Sie, wie viele Dokumentpassagen der Agent abruft und wie er antwortet",
+    queryParaphrasesHint: "Zusätzliche umformulierte Suchanfragen pro Frage (0 = aus)",
+    rerankers: {
+      none: "Keiner",
+      llm: "LLM-Bewertung",
+      http: "Rerank-Modell (HTTP)",
+    } as Record<string, string>,
+    groundingModes: {
+      strict: "Strikt: ablehnen",
+      disclaimer: "Allgemeinwissen mit Hinweis",
+      fallback: "Allgemeinwissen",
+    } as Record<string, string>,
+    languageModes: {
+      off: "Alle Sprachen gleich",
+      boost: "Sprache der Frage bevorzugen",
+      filter: "Nur Sprache der Frage",
+    } as Record<string, string>,
+    answerLanguages: {
+      auto: "Sprache der Frage",
+      de: "Deutsch",
+      en: "Englisch",
+    } as Record<string, string>,
+    refusalPlaceholder: "Leer lassen für die Standardmeldung in der Sprache des Nutzers",
+    submitUpdate: "Agent aktualisieren",
+    submitCreate: "Agent erstellen",
+    loading: "Agenten werden geladen...",
+    empty: "Noch keine Agenten. Erstellen Sie Ihren ersten Agenten!",
+    created: "Agent erfolgreich erstellt",
+    updated: "Agent erfolgreich aktualisiert",
+    deleted: "Agent erfolgreich gelöscht",
+    deleteConfirm: "Möchten Sie diesen Agenten wirklich löschen?",
+    modelLabel: "Modell:",
+    retrievalLabel: "Retrieval:",
+    groundingLabel: "Grounding:",
+    ragEnabledLabel: "RAG aktiviert:",
+    knowledgeBaseCount: (count: number) => `Wissensbasis: ${count} Dokument(e)`,
+    // Labels of the agent settings, shared by the form and the version history
+    settings: {
+      name: "Name",
+      description: "Beschreibung",
+      rag_enabled: "RAG aktiviert",
+      chat_model: "Chat-Modell",
+      temperature: "Temperatur",
+      top_k: "Top-K Passagen",
+      similarity_threshold: "Ähnlichkeitsschwelle",
+      max_context_tokens: "Max. Kontext-Tokens",
+      history_length: "Verlaufslänge (Nachrichten)",
+      query_paraphrases: "Anfrage-Umformulierungen",
+      reranker: "Reranker",
+      rerank_candidates: "Rerank-Kandidaten",
+      grounding_mode: "Wenn die Dokumente die Antwort nicht enthalten",
+      refusal_message: "Ablehnungstext",
+      language_mode: "Passagen in anderen Sprachen",
+      answer_language: "Antwortsprache",
+    },
+  },
+  contexts: {
+    title: "Kontexte",
+    newContext: "Neuer Kontext",
+    editContext: "Kontext bearbeiten",
+    createContext: "Neuen Kontext erstellen",
+    formDescription: "Bündeln Sie Dokumente und Anweisungen, auf die Unterhaltungen beschränkt werden können",
+    namePlaceholder: "z. B. Produktkatalog 2025",
+    descriptionPlaceholder: "Was dieser Kontext abdeckt",
+    systemPromptLabel: "System Prompt (optional)",
+    systemPromptPlaceholder: "Wird verwendet, wenn die Unterhaltung keinen Agenten mit eigenem Prompt hat",
+    contextDocuments: "Kontext-Dokumente",
+    submitUpdate: "Kontext aktualisieren",
+    submitCreate: "Kontext erstellen",
+    loading: "Kontexte werden geladen...",
+    empty: "Noch keine Kontexte. Erstellen Sie Ihren ersten Kontext!",
+    created: "Kontext erfolgreich erstellt",
+    updated: "Kontext erfolgreich aktualisiert",
+    deleted: "Kontext erfolgreich gelöscht",
+    deleteConfirm:
+      "Möchten Sie diesen Kontext wirklich löschen? Unterhaltungen, die ihn verwenden, laufen danach ohne Kontext weiter.",
+    loadFailed: "Kontexte konnten nicht geladen werden",
+    saveFailed: "Kontext konnte nicht gespeichert werden",
+    deleteFailed: "Kontext konnte nicht gelöscht werden",
+    documentsLabel: "Dokumente:",
+  },
+  versionHistory: {
+    title: (name: string) => `Versionsverlauf: ${name}`,
+    agentDescription: "Jede Änderung am Agenten wird als neue Version gespeichert",
+    contextDescription: "Jede Änderung am Kontext wird als neue Version gespeichert",
+    empty: "Noch keine Versionen vorhanden",
+    current: "Aktuell",
+    changesSince: (number: number) => `Änderungen gegenüber Version ${number}`,
+    firstVersion: "Erste Version",
+    restore: "Wiederherstellen",
+    restored: (number: number) => `Version ${number} wiederhergestellt`,
+    loadFailed: "Versionsverlauf konnte nicht geladen werden",
+    restoreFailed: "Version konnte nicht wiederhergestellt werden",
+    settings: "Einstellungen",
+    documentsUnchanged: (count: number) => `${count} Dokumente, unverändert`,
+    noPromptChanges: "Keine Änderungen am Prompt",
+  },
+  voice: {
+    title: "Verbotic CONTEXA Sprachassistent",
+    listening: "Hört zu...",
+    speaking: "Spricht...",
+    ready: "Bereit",
+    active: "Verbotic CONTEXA Sprachassistent aktiv",
+    connecting: "Verbinde...",
+    activeHint: "Sprechen Sie einfach los - der Assistent hört zu und antwortet automatisch",
+    connectingHint: "Bitte warten Sie, während die Verbindung hergestellt wird",
+    ragActive: "RAG aktiviert - Zugriff auf Dokumente",
+    transcript: "Gesprächsverlauf",
+    you: "Sie",
+    assistant: "Assistent",
+    poweredBy: "💡 Powered by Verbotic - Native Audio Preview",
+    connected: "Verbunden",
+    connectedDescription: "Gemini Voice Assistant ist bereit",
+    connectionError: "Verbindungsfehler",
+    connectionErrorDescription: "Verbindung zum Voice Assistant fehlgeschlagen",
+    connectionLost: "Verbindung unterbrochen",
+    reconnecting: (attempt: number, max: number) => `Versuche erneut zu verbinden (${attempt}/${max})...`,
+    connectionFailed: "Verbindung fehlgeschlagen",
+    maxReconnects: "Maximale Anzahl von Wiederverbindungsversuchen erreicht. Bitte schließen und erneut öffnen.",
+    configFailed: "Gemini-Konfiguration konnte nicht geladen werden",
+    microphoneError: "Mikrofon-Fehler",
+    microphoneStartFailed: "Mikrofon konnte nicht gestartet werden",
+  },
+  speech: {
+    microphoneDenied: "Mikrofonzugriff verweigert",
+    transcriptionFailed: "Spracherkennung fehlgeschlagen",
+    audioProcessingFailed: "Audio-Verarbeitung fehlgeschlagen",
+    playbackFailed: "Sprachausgabe fehlgeschlagen",
+  },
+};
+
+export type Messages = typeof de;
@@ -0,0 +1,334 @@
+import type { Messages } from "./de";
+
+// English UI texts
+export const en: Messages = {
+  common: {
+    error: "Error",
+    success: "Success",
+    cancel: "Cancel",
+    loading: "Loading...",
+    yes: "Yes",
+    no: "No",
+    name: "Name",
+    description: "Description",
+    systemPrompt: "System Prompt",
+    documents: "Documents",
+    more: (count: number) => `+${count} more`,
+    selectedCount: (count: number) => `${count} selected`,
+    selectDocuments: "Select documents",
+    noDocumentsAvailable: "No documents available. Upload documents first.",
+    deletedDocument: "Deleted document",
+    unknownDocument: "Unknown document",
+    notAuthenticated: "Not authenticated",
+  },
+  language: {
+    label: "Language",
+    de: "Deutsch",
+    en: "English",
+  },
+  index: {
+    heroAlt: "AI Technology",
+    tagline: "Upload your documents and chat with an AI powered by Retrieval-Augmented Generation",
+    getStarted: "Get Started",
+    uploadTitle: "Upload Documents",
+    uploadDescription: "Upload PDF documents containing the knowledge you want the AI to access",
+    processingTitle: "AI Processing",
+    processingDescription: "Documents are processed and embedded using advanced vector search technology",
+    chatTitle: "Chat & Query",
+    chatDescription: "Ask questions and get accurate answers based on your uploaded documents",
+    features: "Features",
+    secureTitle: "Secure & Private",
+    secureDescription: "Your documents are stored securely and only accessible to you",
+    contextTitle: "Context Management",
+    contextDescription: "Create and manage different contexts with specific documents",
+    historyTitle: "Chat History",
+    historyDescription: "All your conversations are saved with versioning support",
+  },
+  auth: {
+    subtitle: "Sign in to your account or create a new one",
+    signIn: "Sign In",
+    signUp: "Sign Up",
+    email: "Email",
+    emailPlaceholder: "you@example.com",
+    password: "Password",
+    fullName: "Full Name",
+    fullNamePlaceholder: "John Doe",
+    accountCreated: "Account created!",
+    accountCreatedDescription: "You can now sign in with your credentials.",
+  },
+  notFound: {
+    message: "Oops! Page not found",
+    returnHome: "Return to Home",
+  },
+  footer: {
+    sponsoredBy: "Sponsored by Caro Garten- und Landschaftsbau",
+  },
+  dashboard: {
+    documentsTitle: "Documents",
+    documentsDescription: "Upload and manage your PDF documents for RAG",
+    upload: "Upload",
+    addUrl: "Add URL",
+    conversationsTitle: "Conversations",
+    conversationsDescription: "Your chat history",
+    newChat: "New",
+    signOut: "Sign out",
+    quickStart: "Quick Start",
+    quickStartDescription: "Get started with your Verbotic CONTEXA assistant",
+    uploadStepTitle: "1. Upload Documents",
+    uploadStepDescription: "Upload PDF documents that contain the knowledge you want the AI to use",
+    agentsStepTitle: "2. Create Agents",
+    agentsStepDescription: "Configure AI agents with custom behaviors and RAG settings",
+    manageAgents: "Manage Agents →",
+    contextsStepTitle: "3. Define Contexts",
+    contextsStepDescription: "Group documents and instructions into contexts you can pick per conversation",
+    manageContexts: "Manage Contexts →",
+    chatStepTitle: "4. Start a Conversation",
+    chatStepDescription: "Create a new chat and ask questions about your documents",
+  },
+  documents: {
+    loading: "Loading documents...",
+    empty: "No documents uploaded yet",
+    deleted: "Document deleted",
+    deletedDescription: "The document has been removed successfully.",
+    reprocess: "Reprocess",
+    reprocessAll: "Reprocess all",
+    reprocessQueued: (count: number) => `${count} document(s) queued for reprocessing`,
+    reprocessSkipped: (count: number) => `${count} document(s) skipped because they were not found or are already processing`,
+    retry: "Retry",
+    processingCompleted: "Document is ready",
+    processingFailed: "Processing failed",
+    lastSynced: (date: string) => `Last synced ${date}`,
+    syncFailed: (error: string) => `Sync failed: ${error}`,
+    syncInterval: "Refresh",
+    syncIntervals: {
+      never: "Never",
+      daily: "Daily",
+      weekly: "Weekly",
+      monthly: "Monthly",
+    },
+    syncIntervalHours: (hours: number) => `Every ${hours} h`,
+    syncIntervalUpdated: "Refresh schedule saved",
+    status: {
+      processing: "Processing",
+      completed: "Completed",
+      failed: "Failed",
+    },
+  },
+  conversations: {
+    empty: "No conversations yet",
+    deleted: "Conversation deleted",
+    deletedDescription: "The conversation has been removed successfully.",
+  },
+  upload: {
+    title: "Upload Document",
+    description: "Upload documents, slide decks, spreadsheets, emails or scanned images to use with your Verbotic CONTEXA assistant",
+    documentTitle: "Document Title",
+    titlePlaceholder: "Enter document title",
+    embeddingModel: "Embedding Model",
+    embeddingModels: {
+      default: "Default",
+      local: "On-premises (local server)",
+    },
+    embeddingModelHint: "Process confidential documents with the local model so their content stays in-house",
+    fileUpload: "File Upload",
+    dropHere: "Drop your file here",
+    dragHere: "Drag & drop your file here",
+    browse: "or click to browse",
+    supportedFormats: "Supported formats: PDF, TXT, CSV, DOCX, Markdown, HTML, PPTX, XLSX, ODT, EML, PNG, JPEG, TIFF",
+    selectedFile: "Selected File:",
+    uploading: "Uploading...",
+    submit: "Upload Document",
+    invalidType: "Invalid file type",
+    invalidTypeDescription: "This file type is not supported",
+    cancelled: "Upload cancelled",
+    cancelledDescription: "The upload has been cancelled",
+    missingFields: "Please select a file and enter a title",
+    started: "Document uploaded and processing started",
+  },
+  addUrl: {
+    title: "Add URL",
+    description: "Add a web page, or every page of a sitemap, as documents",
+    mode: "Source",
+    modes: {
+      page: "Single page",
+      sitemap: "Sitemap",
+    },
+    url: "Page URL",
+    sitemapUrl: "Sitemap URL",
+    documentTitle: "Document Title (optional)",
+    titlePlaceholder: "Defaults to the page title",
+    maxPages: "Maximum pages",
+    maxDepth: "Maximum depth",
+    maxDepthHint: "How many levels of nested sitemaps are followed",
+    allowedDomains: "Allowed domains",
+    allowedDomainsHint: "Comma-separated, including subdomains. Leave empty to only add pages on the sitemap's domain",
+    syncIntervalHint: "Changed pages are fetched again and only their changed sections are re-embedded",
+    invalidUrl: "Please enter an http or https URL",
+    submitting: "Fetching pages...",
+    submit: "Add",
+    added: (count: number) => `${count} page(s) added and processing started.`,
+    failed: (count: number) => `${count} page(s) could not be fetched.`,
+    noPages: "The sitemap lists no matching pages",
+  },
+  chat: {
+    title: "Chat",
+    ragActive: "🟢 RAG Active",
+    ragInactive: "⚪ RAG Inactive",
+    ttsAuto: "🔊 TTS Auto",
+    ttsManual: "🔇 TTS Manual",
+    selectAgent: "Select agent",
+    defaultAgent: "Default",
+    selectContext: "Select context",
+    noContext: "No context",
+    selectVersion: "Select version",
+    latestVersion: "Latest version",
+    version: (number: number) => `Version ${number}`,
+    voiceAssistant: "Voice Assistant",
+    empty: "Start a conversation by typing a message below",
+    inputPlaceholder: "Type a message or use the microphone...",
+    conversationTitle: (date: string) => `Chat ${date}`,
+  },
+  citations: {
+    page: (page: number) => `Page ${page}`,
+    relevance: (percent: number) => `Relevance: ${percent}%`,
+  },
+  agents: {
+    title: "Agents",
+    newAgent: "New Agent",
+    editAgent: "Edit Agent",
+    createAgent: "Create New Agent",
+    formDescription: "Configure your AI agent's behavior and capabilities",
+    namePlaceholder: "e.g., Research Assistant",
+    descriptionPlaceholder: "Brief description of the agent's purpose",
+    systemPromptPlaceholder: "You are a helpful assistant that...",
+    enableRag: "Enable RAG (Document Access)",
+    knowledgeBase: "Knowledge base documents",
+    retrievalSettings: "Retrieval Settings",
+    retrievalDescription: "Control how many document passages the agent retrieves and how it answers",
+    queryParaphrasesHint: "Additional rephrased search queries per question (0 = off)",
+    rerankers: {
+      none: "None",
+      llm: "LLM scoring",
+      http: "Rerank model (HTTP)",
+    },
+    groundingModes: {
+      strict: "Strict: refuse",
+      disclaimer: "General knowledge with disclaimer",
+      fallback: "General knowledge",
+    },
+    languageModes: {
+      off: "Treat all languages equally",
+      boost: "Prefer the question's language",
+      filter: "Only the question's language",
+    },
+    answerLanguages: {
+      auto: "Language of the question",
+      de: "German",
+      en: "English",
+    },
+    refusalPlaceholder: "Leave empty for the default message in the user's language",
+    submitUpdate: "Update Agent",
+    submitCreate: "Create Agent",
+    loading: "Loading agents...",
+    empty: "No agents yet. Create your first agent!",
+    created: "Agent created successfully",
+    updated: "Agent updated successfully",
+    deleted: "Agent deleted successfully",
+    deleteConfirm: "Are you sure you want to delete this agent?",
+    modelLabel: "Model:",
+    retrievalLabel: "Retrieval:",
+    groundingLabel: "Grounding:",
+    ragEnabledLabel: "RAG Enabled:",
+    knowledgeBaseCount: (count: number) => `Knowledge base: ${count} document(s)`,
+    settings: {
+      name: "Name",
+      description: "Description",
+      rag_enabled: "RAG Enabled",
+      chat_model: "Chat Model",
+      temperature: "Temperature",
+      top_k: "Top-K Passages",
+      similarity_threshold: "Similarity Threshold",
+      max_context_tokens: "Max Context Tokens",
+      history_length: "History Length (Messages)",
+      query_paraphrases: "Query Paraphrases",
+      reranker: "Reranker",
+      rerank_candidates: "Rerank Candidates",
+      grounding_mode: "When Documents Don't Contain the Answer",
+      refusal_message: "Refusal Message",
+      language_mode: "Passages in Other Languages",
+      answer_language: "Answer Language",
+    },
+  },
+  contexts: {
+    title: "Contexts",
+    newContext: "New Context",
+    editContext: "Edit Context",
+    createContext: "Create New Context",
+    formDescription: "Group documents and instructions that conversations can be scoped to",
+    namePlaceholder: "e.g., Product Catalog 2025",
+    descriptionPlaceholder: "What this context covers",
+    systemPromptLabel: "System Prompt (optional)",
+    systemPromptPlaceholder: "Used when the conversation has no agent with its own prompt",
+    contextDocuments: "Context documents",
+    submitUpdate: "Update Context",
+    submitCreate: "Create Context",
+    loading: "Loading contexts...",
+    empty: "No contexts yet. Create your first context!",
+    created: "Context created successfully",
+    updated: "Context updated successfully",
+    deleted: "Context deleted successfully",
+    deleteConfirm: "Are you sure you want to delete this context? Conversations using it will fall back to no context.",
+    loadFailed: "Failed to load contexts",
+    saveFailed: "Failed to save context",
+    deleteFailed: "Failed to delete context",
+    documentsLabel: "Documents:",
+  },
+  versionHistory: {
+    title: (name: string) => `Version history: ${name}`,
+    agentDescription: "Every change to the agent is saved as a new version",
+    contextDescription: "Every change to the context is saved as a new version",
+    empty: "No versions yet",
+    current: "Current",
+    changesSince: (number: number) => `Changes since version ${number}`,
+    firstVersion: "First version",
+    restore: "Restore",
+    restored: (number: number) => `Version ${number} restored`,
+    loadFailed: "Failed to load version history",
+    restoreFailed: "Failed to restore version",
+    settings: "Settings",
+    documentsUnchanged: (count: number) => `${count} documents, unchanged`,
+    noPromptChanges: "No changes to the prompt",
+  },
+  voice: {
+    title: "Verbotic CONTEXA Voice Assistant",
+    listening: "Listening...",
+    speaking: "Speaking...",
+    ready: "Ready",
+    active: "Verbotic CONTEXA Voice Assistant active",
+    connecting: "Connecting...",
+    activeHint: "Just start talking - the assistant listens and answers automatically",
+    connectingHint: "Please wait while the connection is established",
+    ragActive: "RAG enabled - access to documents",
+    transcript: "Transcript",
+    you: "You",
+    assistant: "Assistant",
+    poweredBy: "💡 Powered by Verbotic - Native Audio Preview",
+    connected: "Connected",
+    connectedDescription: "Gemini Voice Assistant is ready",
+    connectionError: "Connection error",
+    connectionErrorDescription: "Could not connect to the Voice Assistant",
+    connectionLost: "Connection lost",
+    reconnecting: (attempt: number, max: number) => `Trying to reconnect (${attempt}/${max})...`,
+    connectionFailed: "Connection failed",
+    maxReconnects: "Maximum number of reconnection attempts reached. Please close and reopen.",
+    configFailed: "Failed to get Gemini config",
+    microphoneError: "Microphone error",
+    microphoneStartFailed: "Could not start the microphone",
+  },
+  speech: {
+    microphoneDenied: "Microphone access denied",
+    transcriptionFailed: "Speech recognition failed",
+    audioProcessingFailed: "Audio processing failed",
+    playbackFailed: "Speech output failed",
+  },
+};
@@ -0,0 +1,33 @@
+import { createContext, useContext } from "react";
+import { de, type Messages } from "./de";
+import { en } from "./en";
+
+export type Language = "de" | "en";
+
+export const LANGUAGES: Language[] = ["de", "en"];
+
+export const DEFAULT_LANGUAGE: Language = "de";
+
+const bundles: Record<Language, Messages> = { de, en };
+
+// Maps a stored value or browser tag such as "en-US" to a supported language
+export const resolveLanguage = (value: string | null | undefined): Language =>
+  value?.toLowerCase().startsWith("en") ? "en" : value?.toLowerCase().startsWith("de") ? "de" : DEFAULT_LANGUAGE;
+
+export const getMessages = (language: Language): Messages => bundles[language];
+
+interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Messages;
+}
+
+export const LanguageContext = createContext<LanguageContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: bundles[DEFAULT_LANGUAGE],
+});
+
+export const useTranslation = () => useContext(LanguageContext);
+
+export type { Messages };
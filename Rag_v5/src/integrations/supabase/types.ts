@@ -14,37 +14,162 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_versions: {
+        Row: {
+          agent_id: string
+          answer_language: string
+          chat_model: string
+          created_at: string
+          created_by: string
+          description: string | null
+          document_ids: string[] | null
+          grounding_mode: string
+          history_length: number
+          id: string
+          language_mode: string
+          max_context_tokens: number
+          name: string
+          query_paraphrases: number
+          rag_enabled: boolean
+          refusal_message: string | null
+          rerank_candidates: number
+          reranker: string
+          similarity_threshold: number
+          system_prompt: string
+          temperature: number
+          top_k: number
+          version_number: number
+        }
+        Insert: {
+          agent_id: string
+          answer_language?: string
+          chat_model: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          document_ids?: string[] | null
+          grounding_mode?: string
+          history_length: number
+          id?: string
+          language_mode?: string
+          max_context_tokens: number
+          name: string
+          query_paraphrases?: number
+          rag_enabled: boolean
+          refusal_message?: string | null
+          rerank_candidates?: number
+          reranker?: string
+          similarity_threshold: number
+          system_prompt: string
+          temperature: number
+          top_k: number
+          version_number: number
+        }
+        Update: {
+          agent_id?: string
+          answer_language?: string
+          chat_model?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          document_ids?: string[] | null
+          grounding_mode?: string
+          history_length?: number
+          id?: string
+          language_mode?: string
+          max_context_tokens?: number
+          name?: string
+          query_paraphrases?: number
+          rag_enabled?: boolean
+          refusal_message?: string | null
+          rerank_candidates?: number
+          reranker?: string
+          similarity_threshold?: number
+          system_prompt?: string
+          temperature?: number
+          top_k?: number
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_versions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agents: {
         Row: {
+          answer_language: string
+          chat_model: string
           created_at: string
           description: string | null
           document_ids: string[] | null
+          grounding_mode: string
+          history_length: number
           id: string
+          language_mode: string
+          max_context_tokens: number
           name: string
+          query_paraphrases: number
           rag_enabled: boolean
+          refusal_message: string | null
+          rerank_candidates: number
+          reranker: string
+          similarity_threshold: number
           system_prompt: string
+          temperature: number
+          top_k: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          answer_language?: string
+          chat_model?: string
           created_at?: string
           description?: string | null
           document_ids?: string[] | null
+          grounding_mode?: string
+          history_length?: number
           id?: string
+          language_mode?: string
+          max_context_tokens?: number
           name: string
+          query_paraphrases?: number
           rag_enabled?: boolean
+          refusal_message?: string | null
+          rerank_candidates?: number
+          reranker?: string
+          similarity_threshold?: number
           system_prompt: string
+          temperature?: number
+          top_k?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          answer_language?: string
+          chat_model?: string
           created_at?: string
           description?: string | null
           document_ids?: string[] | null
+          grounding_mode?: string
+          history_length?: number
           id?: string
+          language_mode?: string
+          max_context_tokens?: number
           name?: string
+          query_paraphrases?: number
           rag_enabled?: boolean
+          refusal_message?: string | null
+          rerank_candidates?: number
+          reranker?: string
+          similarity_threshold?: number
           system_prompt?: string
+          temperature?: number
+          top_k?: number
           updated_at?: string
           user_id?: string
         }
@@ -131,7 +256,10 @@ export type Database = {
         Row: {
           agent_id: string | null
           context_id: string | null
+          context_version_id: string | null
           created_at: string | null
+          history_summary: string | null
+          history_summary_until: string | null
           id: string
           rag_enabled: boolean
           title: string
@@ -141,7 +269,10 @@ export type Database = {
         Insert: {
           agent_id?: string | null
           context_id?: string | null
+          context_version_id?: string | null
           created_at?: string | null
+          history_summary?: string | null
+          history_summary_until?: string | null
           id?: string
           rag_enabled?: boolean
           title: string
@@ -151,7 +282,10 @@ export type Database = {
         Update: {
           agent_id?: string | null
           context_id?: string | null
+          context_version_id?: string | null
           created_at?: string | null
+          history_summary?: string | null
+          history_summary_until?: string | null
           id?: string
           rag_enabled?: boolean
           title?: string
@@ -173,32 +307,54 @@ export type Database = {
             referencedRelation: "contexts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversations_context_version_id_fkey"
+            columns: ["context_version_id"]
+            isOneToOne: false
+            referencedRelation: "context_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       document_chunks: {
         Row: {
           content: string
+          content_hash: string | null
           created_at: string | null
           document_id: string
           embedding: string | null
+          embedding_model: string
+          fts: unknown | null
           id: string
+          language: string | null
           metadata: Json | null
+          staged: boolean
         }
         Insert: {
           content: string
+          content_hash?: string | null
           created_at?: string | null
           document_id: string
           embedding?: string | null
+          embedding_model: string
+          fts?: unknown | null
           id?: string
+          language?: string | null
           metadata?: Json | null
+          staged?: boolean
         }
         Update: {
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           document_id?: string
           embedding?: string | null
+          embedding_model?: string
+          fts?: unknown | null
           id?: string
+          language?: string | null
           metadata?: Json | null
+          staged?: boolean
         }
         Relationships: [
           {
@@ -212,40 +368,73 @@ export type Database = {
       }
       documents: {
         Row: {
+          chunk_count: number | null
+          content_hash: string | null
           created_at: string | null
+          embedding_model: string | null
           error_message: string | null
+          failed_chunks: Json
+          fetched_at: string | null
           file_path: string
           file_size: number | null
           id: string
+          language: string | null
+          last_sync_error: string | null
+          last_synced_at: string | null
           mime_type: string | null
+          next_sync_at: string | null
           processing_progress: number | null
+          source_url: string | null
           status: string | null
+          sync_interval_hours: number | null
           title: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          chunk_count?: number | null
+          content_hash?: string | null
           created_at?: string | null
+          embedding_model?: string | null
           error_message?: string | null
+          failed_chunks?: Json
+          fetched_at?: string | null
           file_path: string
           file_size?: number | null
           id?: string
+          language?: string | null
+          last_sync_error?: string | null
+          last_synced_at?: string | null
           mime_type?: string | null
+          next_sync_at?: string | null
           processing_progress?: number | null
+          source_url?: string | null
           status?: string | null
+          sync_interval_hours?: number | null
           title: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          chunk_count?: number | null
+          content_hash?: string | null
           created_at?: string | null
+          embedding_model?: string | null
           error_message?: string | null
+          failed_chunks?: Json
+          fetched_at?: string | null
           file_path?: string
           file_size?: number | null
           id?: string
+          language?: string | null
+          last_sync_error?: string | null
+          last_synced_at?: string | null
           mime_type?: string | null
+          next_sync_at?: string | null
           processing_progress?: number | null
+          source_url?: string | null
           status?: string | null
+          sync_interval_hours?: number | null
           title?: string
           updated_at?: string | null
           user_id?: string
@@ -287,12 +476,81 @@ export type Database = {
           },
         ]
       }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          chunk_plan: Json | null
+          available_at: string
+          created_at: string
+          document_id: string
+          finished_at: string | null
+          id: string
+          last_chunk_index: number | null
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          options: Json
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          worker_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          chunk_plan?: Json | null
+          available_at?: string
+          created_at?: string
+          document_id: string
+          finished_at?: string | null
+          id?: string
+          last_chunk_index?: number | null
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          options?: Json
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          worker_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          chunk_plan?: Json | null
+          available_at?: string
+          created_at?: string
+          document_id?: string
+          finished_at?: string | null
+          id?: string
+          last_chunk_index?: number | null
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          options?: Json
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
           email: string
           full_name: string | null
           id: string
+          language: string
           updated_at: string | null
         }
         Insert: {
@@ -300,6 +558,7 @@ export type Database = {
           email: string
           full_name?: string | null
           id: string
+          language?: string
           updated_at?: string | null
         }
         Update: {
@@ -307,6 +566,7 @@ export type Database = {
           email?: string
           full_name?: string | null
           id?: string
+          language?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -316,6 +576,91 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_document_syncs: {
+        Args: {
+          p_limit: number
+        }
+        Returns: {
+          chunk_count: number | null
+          content_hash: string | null
+          created_at: string | null
+          embedding_model: string | null
+          error_message: string | null
+          failed_chunks: Json
+          fetched_at: string | null
+          file_path: string
+          file_size: number | null
+          id: string
+          language: string | null
+          last_sync_error: string | null
+          last_synced_at: string | null
+          mime_type: string | null
+          next_sync_at: string | null
+          processing_progress: number | null
+          source_url: string | null
+          status: string | null
+          sync_interval_hours: number | null
+          title: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      claim_processing_job: {
+        Args: {
+          p_lease_seconds: number
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          chunk_plan: Json | null
+          available_at: string
+          created_at: string
+          document_id: string
+          finished_at: string | null
+          id: string
+          last_chunk_index: number | null
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          options: Json
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          worker_id: string | null
+        }[]
+      }
+      commit_document_chunks: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: number
+      }
+      hybrid_match_document_chunks: {
+        Args: {
+          candidate_count?: number
+          filter_document_ids: string[]
+          language_boost?: number
+          language_mode?: string
+          match_count: number
+          match_threshold?: number
+          query_embedding: string
+          query_embedding_model?: string
+          query_language?: string
+          query_text: string
+          rrf_k?: number
+        }
+        Returns: {
+          content: string
+          document_id: string
+          id: string
+          keyword_rank: number
+          language: string
+          metadata: Json
+          score: number
+          similarity: number
+        }[]
+      }
       match_document_chunks: {
         Args: {
           filter_document_ids: string[]
@@ -327,9 +672,19 @@ export type Database = {
           content: string
           document_id: string
           id: string
+          metadata: Json
           similarity: number
         }[]
       }
+      persist_user_message: {
+        Args: {
+          p_content: string
+          p_conversation_id: string | null
+          p_new_conversation: Json
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,12 @@
+// Refresh schedules offered for documents added from a URL, in hours between
+// two syncs; "never" keeps the snapshot taken when the document was added
+export const SYNC_INTERVALS: Record<string, number | null> = {
+  never: null,
+  daily: 24,
+  weekly: 24 * 7,
+  monthly: 24 * 30,
+};
+
+// The schedule's name, undefined for intervals set outside these options
+export const syncIntervalName = (hours: number | null) =>
+  Object.keys(SYNC_INTERVALS).find((name) => SYNC_INTERVALS[name] === hours);
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Globe, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/i18n";
+import { SYNC_INTERVALS } from "@/lib/sync";
+
+// A single page, or every page listed in a sitemap
+const SOURCE_MODES = ["page", "sitemap"];
+// "default" uses the server's configured embedding model, "local" the on-prem one
+const EMBEDDING_OPTIONS = ["default", "local"];
+
+const AddUrl = () => {
+  const [url, setUrl] = useState("");
+  const [mode, setMode] = useState("page");
+  const [title, setTitle] = useState("");
+  const [maxPages, setMaxPages] = useState(25);
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [allowedDomains, setAllowedDomains] = useState("");
+  const [embeddingOption, setEmbeddingOption] = useState("default");
+  const [syncInterval, setSyncInterval] = useState("never");
+  const [submitting, setSubmitting] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const handleSubmit = async () => {
+    if (!/^https?:\/\/\S+$/i.test(url.trim())) {
+      toast({
+        title: t.common.error,
+        description: t.addUrl.invalidUrl,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke("ingest-url", {
+        body: {
+          url: url.trim(),
+          mode,
+          embedding_model: embeddingOption === "default" ? null : embeddingOption,
+          sync_interval_hours: SYNC_INTERVALS[syncInterval],
+          ...(mode === "page"
+            ? { title: title.trim() || undefined }
+            : {
+                max_pages: maxPages,
+                max_depth: maxDepth,
+                allowed_domains: allowedDomains
+                  .split(",")
+                  .map((domain) => domain.trim())
+                  .filter(Boolean),
+              }),
+        },
+      });
+
+      if (error) throw error;
+
+      const results: { status: string }[] = data?.results ?? [];
+      const queued = results.filter((result) => result.status === "queued").length;
+      const failed = results.length - queued;
+
+      if (queued === 0) {
+        throw new Error(results.length === 0 ? t.addUrl.noPages : t.addUrl.failed(failed));
+      }
+
+      // Start a worker right away instead of waiting for the scheduled run
+      void supabase.functions.invoke("process-worker");
+
+      toast({
+        title: t.common.success,
+        description: failed > 0 ? `${t.addUrl.added(queued)} ${t.addUrl.failed(failed)}` : t.addUrl.added(queued),
+      });
+
+      navigate("/dashboard");
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card p-4">
+        <div className="container mx-auto flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">{t.addUrl.title}</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t.addUrl.title}</CardTitle>
+            <CardDescription>{t.addUrl.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="source_mode">{t.addUrl.mode}</Label>
+              <Select value={mode} onValueChange={setMode} disabled={submitting}>
+                <SelectTrigger id="source_mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOURCE_MODES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t.addUrl.modes[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="url">{mode === "sitemap" ? t.addUrl.sitemapUrl : t.addUrl.url}</Label>
+              <Input
+                id="url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder={mode === "sitemap" ? "https://example.com/sitemap.xml" : "https://example.com/page"}
+                disabled={submitting}
+              />
+            </div>
+
+            {mode === "page" ? (
+              <div className="space-y-2">
+                <Label htmlFor="title">{t.addUrl.documentTitle}</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={t.addUrl.titlePlaceholder}
+                  disabled={submitting}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="max_pages">{t.addUrl.maxPages}</Label>
+                    <Input
+                      id="max_pages"
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={maxPages}
+                      onChange={(e) => setMaxPages(parseInt(e.target.value) || 1)}
+                      disabled={submitting}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max_depth">{t.addUrl.maxDepth}</Label>
+                    <Input
+                      id="max_depth"
+                      type="number"
+                      min="0"
+                      max="5"
+                      value={maxDepth}
+                      onChange={(e) => setMaxDepth(parseInt(e.target.value) || 0)}
+                      disabled={submitting}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">{t.addUrl.maxDepthHint}</p>
+
+                <div className="space-y-2">
+                  <Label htmlFor="allowed_domains">{t.addUrl.allowedDomains}</Label>
+                  <Input
+                    id="allowed_domains"
+                    value={allowedDomains}
+                    onChange={(e) => setAllowedDomains(e.target.value)}
+                    placeholder="example.com, docs.example.com"
+                    disabled={submitting}
+                  />
+                  <p className="text-xs text-muted-foreground">{t.addUrl.allowedDomainsHint}</p>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="embedding_model">{t.upload.embeddingModel}</Label>
+              <Select value={embeddingOption} onValueChange={setEmbeddingOption} disabled={submitting}>
+                <SelectTrigger id="embedding_model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMBEDDING_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t.upload.embeddingModels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sync_interval">{t.documents.syncInterval}</Label>
+              <Select value={syncInterval} onValueChange={setSyncInterval} disabled={submitting}>
+                <SelectTrigger id="sync_interval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(SYNC_INTERVALS).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t.documents.syncIntervals[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{t.addUrl.syncIntervalHint}</p>
+            </div>
+
+            <Button onClick={handleSubmit} disabled={!url.trim() || submitting} className="w-full">
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t.addUrl.submitting}
+                </>
+              ) : (
+                <>
+                  <Globe className="mr-2 h-4 w-4" />
+                  {t.addUrl.submit}
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AddUrl;
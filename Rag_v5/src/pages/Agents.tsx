@@ -7,8 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Plus, Trash2, Edit, Upload, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Plus, Trash2, Edit, Upload, X, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import AgentVersionHistory from "@/components/AgentVersionHistory";
+import { useTranslation } from "@/i18n";
 
 interface Agent {
   id: string;
@@ -17,6 +20,19 @@ interface Agent {
   system_prompt: string;
   rag_enabled: boolean;
   document_ids: string[];
+  top_k: number;
+  similarity_threshold: number;
+  max_context_tokens: number;
+  history_length: number;
+  chat_model: string;
+  temperature: number;
+  query_paraphrases: number;
+  reranker: string;
+  rerank_candidates: number;
+  grounding_mode: string;
+  refusal_message: string | null;
+  language_mode: string;
+  answer_language: string;
   created_at: string;
 }
 
@@ -26,22 +42,52 @@ interface Document {
   status: string;
 }
 
+const CHAT_MODELS = ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"];
+
+const RERANKERS = ["none", "llm", "http"];
+
+// What the agent does when no document passage matches the question
+const GROUNDING_MODES = ["strict", "disclaimer", "fallback"];
+
+// How retrieval treats passages in another language than the question
+const LANGUAGE_MODES = ["off", "boost", "filter"];
+
+// "auto" answers in the language of the question
+const ANSWER_LANGUAGES = ["auto", "de", "en"];
+
+const defaultFormData = {
+  name: "",
+  description: "",
+  system_prompt: "",
+  rag_enabled: true,
+  document_ids: [] as string[],
+  top_k: 5,
+  similarity_threshold: 0.3,
+  max_context_tokens: 3000,
+  history_length: 10,
+  chat_model: "gpt-4o-mini",
+  temperature: 0.7,
+  query_paraphrases: 0,
+  reranker: "none",
+  rerank_candidates: 20,
+  grounding_mode: "strict",
+  refusal_message: "",
+  language_mode: "off",
+  answer_language: "auto",
+};
+
 const Agents = () => {
   const [agents, setAgents] = useState<Agent[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    system_prompt: "",
-    rag_enabled: true,
-    document_ids: [] as string[],
-  });
+  const [formData, setFormData] = useState(defaultFormData);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [showDocumentPicker, setShowDocumentPicker] = useState(false);
+  const [historyAgent, setHistoryAgent] = useState<Agent | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   useEffect(() => {
     fetchAgents();
@@ -59,7 +105,7 @@ const Agents = () => {
       setAgents(data || []);
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -88,7 +134,7 @@ const Agents = () => {
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      if (!user) throw new Error(t.common.notAuthenticated);
 
       if (editingId) {
         const { error } = await supabase
@@ -99,8 +145,8 @@ const Agents = () => {
         if (error) throw error;
 
         toast({
-          title: "Success",
-          description: "Agent updated successfully",
+          title: t.common.success,
+          description: t.agents.updated,
         });
       } else {
         const { error } = await supabase.from("agents").insert([
@@ -113,24 +159,18 @@ const Agents = () => {
         if (error) throw error;
 
         toast({
-          title: "Success",
-          description: "Agent created successfully",
+          title: t.common.success,
+          description: t.agents.created,
         });
       }
 
       setShowForm(false);
       setEditingId(null);
-      setFormData({
-        name: "",
-        description: "",
-        system_prompt: "",
-        rag_enabled: true,
-        document_ids: [],
-      });
+      setFormData(defaultFormData);
       fetchAgents();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -144,13 +184,26 @@ const Agents = () => {
       system_prompt: agent.system_prompt,
       rag_enabled: agent.rag_enabled,
       document_ids: agent.document_ids || [],
+      top_k: agent.top_k,
+      similarity_threshold: agent.similarity_threshold,
+      max_context_tokens: agent.max_context_tokens,
+      history_length: agent.history_length,
+      chat_model: agent.chat_model,
+      temperature: agent.temperature,
+      query_paraphrases: agent.query_paraphrases,
+      reranker: agent.reranker,
+      rerank_candidates: agent.rerank_candidates,
+      grounding_mode: agent.grounding_mode,
+      refusal_message: agent.refusal_message || "",
+      language_mode: agent.language_mode,
+      answer_language: agent.answer_language,
     });
     setEditingId(agent.id);
     setShowForm(true);
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this agent?")) return;
+    if (!confirm(t.agents.deleteConfirm)) return;
 
     try {
       const { error } = await supabase.from("agents").delete().eq("id", id);
@@ -158,13 +211,13 @@ const Agents = () => {
       if (error) throw error;
 
       toast({
-        title: "Success",
-        description: "Agent deleted successfully",
+        title: t.common.success,
+        description: t.agents.deleted,
       });
       fetchAgents();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -188,11 +241,11 @@ const Agents = () => {
             <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <h1 className="text-xl font-bold">Agents</h1>
+            <h1 className="text-xl font-bold">{t.agents.title}</h1>
           </div>
           <Button onClick={() => setShowForm(true)}>
             <Plus className="h-4 w-4 mr-2" />
-            New Agent
+            {t.agents.newAgent}
           </Button>
         </div>
       </header>
@@ -201,42 +254,42 @@ const Agents = () => {
         {showForm ? (
           <Card className="max-w-2xl mx-auto">
             <CardHeader>
-              <CardTitle>{editingId ? "Edit Agent" : "Create New Agent"}</CardTitle>
+              <CardTitle>{editingId ? t.agents.editAgent : t.agents.createAgent}</CardTitle>
               <CardDescription>
-                Configure your AI agent's behavior and capabilities
+                {t.agents.formDescription}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Name</Label>
+                  <Label htmlFor="name">{t.agents.settings.name}</Label>
                   <Input
                     id="name"
                     value={formData.name}
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="e.g., Research Assistant"
+                    placeholder={t.agents.namePlaceholder}
                     required
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
+                  <Label htmlFor="description">{t.agents.settings.description}</Label>
                   <Textarea
                     id="description"
                     value={formData.description}
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    placeholder="Brief description of the agent's purpose"
+                    placeholder={t.agents.descriptionPlaceholder}
                     rows={2}
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="system_prompt">System Prompt</Label>
+                  <Label htmlFor="system_prompt">{t.common.systemPrompt}</Label>
                   <Textarea
                     id="system_prompt"
                     value={formData.system_prompt}
                     onChange={(e) => setFormData({ ...formData, system_prompt: e.target.value })}
-                    placeholder="You are a helpful assistant that..."
+                    placeholder={t.agents.systemPromptPlaceholder}
                     rows={6}
                     required
                   />
@@ -250,12 +303,12 @@ const Agents = () => {
                       setFormData({ ...formData, rag_enabled: checked })
                     }
                   />
-                  <Label htmlFor="rag_enabled">Enable RAG (Document Access)</Label>
+                  <Label htmlFor="rag_enabled">{t.agents.enableRag}</Label>
                 </div>
 
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
-                    <Label>Wissensbasis-Dokumente</Label>
+                    <Label>{t.agents.knowledgeBase}</Label>
                     <Button
                       type="button"
                       variant="outline"
@@ -263,9 +316,9 @@ const Agents = () => {
                       onClick={() => setShowDocumentPicker(!showDocumentPicker)}
                     >
                       <Upload className="h-4 w-4 mr-2" />
-                      {formData.document_ids.length > 0 
-                        ? `${formData.document_ids.length} ausgewählt` 
-                        : "Dokumente auswählen"}
+                      {formData.document_ids.length > 0
+                        ? t.common.selectedCount(formData.document_ids.length)
+                        : t.common.selectDocuments}
                     </Button>
                   </div>
                   
@@ -273,7 +326,7 @@ const Agents = () => {
                     <Card className="p-4 max-h-60 overflow-y-auto">
                       {documents.length === 0 ? (
                         <p className="text-sm text-muted-foreground text-center py-4">
-                          Keine Dokumente verfügbar. Laden Sie zuerst Dokumente hoch.
+                          {t.common.noDocumentsAvailable}
                         </p>
                       ) : (
                         <div className="space-y-2">
@@ -321,9 +374,226 @@ const Agents = () => {
                   )}
                 </div>
 
+                <div className="space-y-4 pt-2 border-t">
+                  <div>
+                    <Label>{t.agents.retrievalSettings}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t.agents.retrievalDescription}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="top_k">{t.agents.settings.top_k}</Label>
+                      <Input
+                        id="top_k"
+                        type="number"
+                        min={1}
+                        max={50}
+                        value={formData.top_k}
+                        onChange={(e) => setFormData({ ...formData, top_k: Number(e.target.value) })}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="similarity_threshold">{t.agents.settings.similarity_threshold}</Label>
+                      <Input
+                        id="similarity_threshold"
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={formData.similarity_threshold}
+                        onChange={(e) => setFormData({ ...formData, similarity_threshold: Number(e.target.value) })}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="max_context_tokens">{t.agents.settings.max_context_tokens}</Label>
+                      <Input
+                        id="max_context_tokens"
+                        type="number"
+                        min={200}
+                        max={100000}
+                        step={100}
+                        value={formData.max_context_tokens}
+                        onChange={(e) => setFormData({ ...formData, max_context_tokens: Number(e.target.value) })}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="history_length">{t.agents.settings.history_length}</Label>
+                      <Input
+                        id="history_length"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={formData.history_length}
+                        onChange={(e) => setFormData({ ...formData, history_length: Number(e.target.value) })}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="chat_model">{t.agents.settings.chat_model}</Label>
+                      <Select
+                        value={formData.chat_model}
+                        onValueChange={(value) => setFormData({ ...formData, chat_model: value })}
+                      >
+                        <SelectTrigger id="chat_model">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHAT_MODELS.map((model) => (
+                            <SelectItem key={model} value={model}>
+                              {model}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="temperature">{t.agents.settings.temperature}</Label>
+                      <Input
+                        id="temperature"
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={formData.temperature}
+                        onChange={(e) => setFormData({ ...formData, temperature: Number(e.target.value) })}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="query_paraphrases">{t.agents.settings.query_paraphrases}</Label>
+                      <Input
+                        id="query_paraphrases"
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={formData.query_paraphrases}
+                        onChange={(e) => setFormData({ ...formData, query_paraphrases: Number(e.target.value) })}
+                        required
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {t.agents.queryParaphrasesHint}
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="reranker">{t.agents.settings.reranker}</Label>
+                      <Select
+                        value={formData.reranker}
+                        onValueChange={(value) => setFormData({ ...formData, reranker: value })}
+                      >
+                        <SelectTrigger id="reranker">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RERANKERS.map((reranker) => (
+                            <SelectItem key={reranker} value={reranker}>
+                              {t.agents.rerankers[reranker]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="rerank_candidates">{t.agents.settings.rerank_candidates}</Label>
+                      <Input
+                        id="rerank_candidates"
+                        type="number"
+                        min={5}
+                        max={100}
+                        value={formData.rerank_candidates}
+                        onChange={(e) => setFormData({ ...formData, rerank_candidates: Number(e.target.value) })}
+                        disabled={formData.reranker === "none"}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="grounding_mode">{t.agents.settings.grounding_mode}</Label>
+                      <Select
+                        value={formData.grounding_mode}
+                        onValueChange={(value) => setFormData({ ...formData, grounding_mode: value })}
+                      >
+                        <SelectTrigger id="grounding_mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GROUNDING_MODES.map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {t.agents.groundingModes[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {formData.grounding_mode === "strict" && (
+                      <div className="space-y-2 col-span-2">
+                        <Label htmlFor="refusal_message">{t.agents.settings.refusal_message}</Label>
+                        <Textarea
+                          id="refusal_message"
+                          value={formData.refusal_message}
+                          onChange={(e) => setFormData({ ...formData, refusal_message: e.target.value })}
+                          placeholder={t.agents.refusalPlaceholder}
+                          rows={2}
+                        />
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor="language_mode">{t.agents.settings.language_mode}</Label>
+                      <Select
+                        value={formData.language_mode}
+                        onValueChange={(value) => setFormData({ ...formData, language_mode: value })}
+                      >
+                        <SelectTrigger id="language_mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LANGUAGE_MODES.map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {t.agents.languageModes[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="answer_language">{t.agents.settings.answer_language}</Label>
+                      <Select
+                        value={formData.answer_language}
+                        onValueChange={(value) => setFormData({ ...formData, answer_language: value })}
+                      >
+                        <SelectTrigger id="answer_language">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ANSWER_LANGUAGES.map((language) => (
+                            <SelectItem key={language} value={language}>
+                              {t.agents.answerLanguages[language]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="flex gap-2">
                   <Button type="submit" className="flex-1">
-                    {editingId ? "Update Agent" : "Create Agent"}
+                    {editingId ? t.agents.submitUpdate : t.agents.submitCreate}
                   </Button>
                   <Button
                     type="button"
@@ -331,16 +601,10 @@ const Agents = () => {
                     onClick={() => {
                       setShowForm(false);
                       setEditingId(null);
-                      setFormData({
-                        name: "",
-                        description: "",
-                        system_prompt: "",
-                        rag_enabled: true,
-                        document_ids: [],
-                      });
+                      setFormData(defaultFormData);
                     }}
                   >
-                    Cancel
+                    {t.common.cancel}
                   </Button>
                 </div>
               </form>
@@ -349,11 +613,11 @@ const Agents = () => {
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {loading ? (
-              <p>Loading agents...</p>
+              <p>{t.agents.loading}</p>
             ) : agents.length === 0 ? (
               <Card className="col-span-full">
                 <CardContent className="p-8 text-center">
-                  <p className="text-muted-foreground">No agents yet. Create your first agent!</p>
+                  <p className="text-muted-foreground">{t.agents.empty}</p>
                 </CardContent>
               </Card>
             ) : (
@@ -363,6 +627,13 @@ const Agents = () => {
                     <CardTitle className="flex items-center justify-between">
                       <span>{agent.name}</span>
                       <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryAgent(agent)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -386,13 +657,28 @@ const Agents = () => {
                   <CardContent>
                     <div className="space-y-2 text-sm">
                       <div className="flex items-center justify-between">
-                        <span className="text-muted-foreground">RAG Enabled:</span>
-                        <span>{agent.rag_enabled ? "Yes" : "No"}</span>
+                        <span className="text-muted-foreground">{t.agents.ragEnabledLabel}</span>
+                        <span>{agent.rag_enabled ? t.common.yes : t.common.no}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">{t.agents.modelLabel}</span>
+                        <span>{agent.chat_model} • T {agent.temperature}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">{t.agents.retrievalLabel}</span>
+                        <span>
+                          Top {agent.top_k} • ≥ {agent.similarity_threshold}
+                          {agent.reranker !== "none" && ` • Rerank ${agent.reranker}`}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">{t.agents.groundingLabel}</span>
+                        <span>{t.agents.groundingModes[agent.grounding_mode] ?? agent.grounding_mode}</span>
                       </div>
                       {agent.document_ids && agent.document_ids.length > 0 && (
                         <div className="pt-2 border-t">
                           <p className="text-muted-foreground mb-1">
-                            Wissensbasis: {agent.document_ids.length} Dokument(e)
+                            {t.agents.knowledgeBaseCount(agent.document_ids.length)}
                           </p>
                           <div className="flex flex-wrap gap-1">
                             {agent.document_ids.slice(0, 3).map((docId) => {
@@ -405,14 +691,14 @@ const Agents = () => {
                             })}
                             {agent.document_ids.length > 3 && (
                               <span className="text-xs px-2 py-0.5 bg-muted rounded">
-                                +{agent.document_ids.length - 3} mehr
+                                {t.common.more(agent.document_ids.length - 3)}
                               </span>
                             )}
                           </div>
                         </div>
                       )}
                       <div className="pt-2 border-t">
-                        <p className="text-muted-foreground mb-1">System Prompt:</p>
+                        <p className="text-muted-foreground mb-1">{t.common.systemPrompt}:</p>
                         <p className="text-xs line-clamp-3">{agent.system_prompt}</p>
                       </div>
                     </div>
@@ -423,6 +709,14 @@ const Agents = () => {
           </div>
         )}
       </main>
+
+      <AgentVersionHistory
+        agentId={historyAgent?.id ?? null}
+        agentName={historyAgent?.name ?? ""}
+        documents={documents}
+        onOpenChange={(open) => !open && setHistoryAgent(null)}
+        onRestored={fetchAgents}
+      />
     </div>
   );
 };
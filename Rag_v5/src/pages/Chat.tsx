@@ -12,12 +12,17 @@ import { useToast } from "@/hooks/use-toast";
 import { useVoiceRecording } from "@/hooks/useVoiceRecording";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
 import VoiceAssistant from "@/components/VoiceAssistant";
+import CitedMessage from "@/components/CitedMessage";
+import { RagChatError, streamRagChat, type Citation } from "@/utils/ragChatStream";
+import type { Json } from "@/integrations/supabase/types";
+import { useTranslation } from "@/i18n";
 
 interface Message {
   id: string;
   role: string;
   content: string;
   created_at: string;
+  metadata?: Json | null;
 }
 
 interface Agent {
@@ -25,10 +30,21 @@ interface Agent {
   name: string;
 }
 
+interface Context {
+  id: string;
+  name: string;
+}
+
+interface ContextVersion {
+  id: string;
+  version_number: number;
+}
+
 const Chat = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useTranslation();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
@@ -36,6 +52,11 @@ const Chat = () => {
   const [ragEnabled, setRagEnabled] = useState(true);
   const [agents, setAgents] = useState<Agent[]>([]);
   const [selectedAgentId, setSelectedAgentId] = useState<string>("default");
+  const [contexts, setContexts] = useState<Context[]>([]);
+  const [selectedContextId, setSelectedContextId] = useState<string>("none");
+  const [contextVersions, setContextVersions] = useState<ContextVersion[]>([]);
+  // "latest" follows the context as it changes; a version id pins the conversation to it
+  const [selectedContextVersionId, setSelectedContextVersionId] = useState<string>("latest");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { isRecording, isProcessing, startRecording, stopRecording } = useVoiceRecording();
   const { speak } = useTextToSpeech();
@@ -44,12 +65,17 @@ const Chat = () => {
 
   useEffect(() => {
     fetchAgents();
+    fetchContexts();
     if (conversationId) {
       fetchMessages();
       fetchConversationSettings();
     }
   }, [conversationId]);
 
+  useEffect(() => {
+    fetchContextVersions();
+  }, [selectedContextId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
@@ -68,13 +94,52 @@ const Chat = () => {
     }
   };
 
+  const fetchContexts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("contexts")
+        .select("id, name")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setContexts(data || []);
+    } catch (error) {
+      console.error("Error fetching contexts:", error);
+    }
+  };
+
+  const fetchContextVersions = async () => {
+    if (selectedContextId === "none") {
+      setContextVersions([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("context_versions")
+        .select("id, version_number")
+        .eq("context_id", selectedContextId)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      setContextVersions(data || []);
+    } catch (error) {
+      console.error("Error fetching context versions:", error);
+    }
+  };
+
+  const handleContextChange = (contextId: string) => {
+    setSelectedContextId(contextId);
+    setSelectedContextVersionId("latest");
+  };
+
   const fetchConversationSettings = async () => {
     if (!conversationId) return;
 
     try {
       const { data, error } = await supabase
         .from("conversations")
-        .select("agent_id, rag_enabled")
+        .select("agent_id, context_id, context_version_id, rag_enabled")
         .eq("id", conversationId)
         .single();
 
@@ -82,6 +147,8 @@ const Chat = () => {
       if (data) {
         setRagEnabled(data.rag_enabled);
         setSelectedAgentId(data.agent_id || "default");
+        setSelectedContextId(data.context_id || "none");
+        setSelectedContextVersionId(data.context_version_id || "latest");
       }
     } catch (error: any) {
       console.error("Error fetching conversation settings:", error);
@@ -102,49 +169,21 @@ const Chat = () => {
       setMessages(data || []);
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
-  const createConversation = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { data, error } = await supabase
-        .from("conversations")
-        .insert([
-          {
-            user_id: user.id,
-            title: `Chat ${new Date().toLocaleDateString()}`,
-            agent_id: selectedAgentId === "default" ? null : selectedAgentId,
-            rag_enabled: ragEnabled,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data.id;
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-      return null;
-    }
-  };
-
   const updateConversationSettings = async (convId: string) => {
     try {
       const { error } = await supabase
         .from("conversations")
         .update({
           agent_id: selectedAgentId === "default" ? null : selectedAgentId,
+          context_id: selectedContextId === "none" ? null : selectedContextId,
+          context_version_id: selectedContextVersionId === "latest" ? null : selectedContextVersionId,
           rag_enabled: ragEnabled,
         })
         .eq("id", convId);
@@ -173,30 +212,11 @@ const Chat = () => {
     setMessages(prev => [...prev, userMsg]);
 
     try {
-      let currentConvId = conversationId;
-
-      if (!currentConvId) {
-        currentConvId = await createConversation();
-        if (!currentConvId) throw new Error("Failed to create conversation");
-        setConversationId(currentConvId);
+      // Apply setting changes to an existing conversation; new ones are created by rag-chat
+      if (conversationId) {
+        await updateConversationSettings(conversationId);
       }
 
-      // Add user message to database
-      const { error: userMsgError } = await supabase
-        .from("messages")
-        .insert([
-          {
-            conversation_id: currentConvId,
-            role: "user",
-            content: userMessage,
-          },
-        ]);
-
-      if (userMsgError) throw userMsgError;
-
-      // Update conversation settings
-      await updateConversationSettings(currentConvId);
-
       // Show loading indicator for assistant
       const tempAssistantId = `temp-assistant-${Date.now()}`;
       const loadingMsg = {
@@ -207,55 +227,62 @@ const Chat = () => {
       };
       setMessages(prev => [...prev, loadingMsg]);
 
-      // Call RAG function
-      const { data: ragData, error: ragError } = await supabase.functions.invoke("rag-chat", {
-        body: {
+      // Stream the RAG response and render tokens as they arrive
+      let fullResponse = "";
+      const ragResult = await streamRagChat(
+        {
           message: userMessage,
-          conversation_id: currentConvId,
+          conversation_id: conversationId,
           rag_enabled: ragEnabled,
+          agent_id: selectedAgentId === "default" ? null : selectedAgentId,
+          context_id: selectedContextId === "none" ? null : selectedContextId,
+          context_version_id: selectedContextVersionId === "latest" ? null : selectedContextVersionId,
+          title: t.chat.conversationTitle(new Date().toLocaleDateString()),
+        },
+        (delta) => {
+          fullResponse += delta;
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === tempAssistantId
+                ? { ...msg, content: fullResponse }
+                : msg
+            )
+          );
         },
-      });
-
-      if (ragError) throw ragError;
-
-      // Update assistant message with response
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === tempAssistantId 
-            ? { ...msg, content: ragData.response }
-            : msg
-        )
       );
 
-      // Add assistant message to database
-      const { error: assistantMsgError } = await supabase
-        .from("messages")
-        .insert([
-          {
-            conversation_id: currentConvId,
-            role: "assistant",
-            content: ragData.response,
-          },
-        ]);
-
-      if (assistantMsgError) throw assistantMsgError;
+      // Swap the optimistic messages for the rows rag-chat persisted
+      setMessages(prev => [
+        ...prev.filter(msg => msg.id !== tempUserId && msg.id !== tempAssistantId),
+        ragResult.user_message,
+        ragResult.assistant_message,
+      ]);
 
-      // Refresh messages from database to get real IDs
-      await fetchMessages();
+      if (!conversationId) {
+        setConversationId(ragResult.conversation_id);
+      }
 
       // Auto-play TTS for assistant response
-      if (autoPlayTTS && ragData.response) {
-        speak(ragData.response).catch(err => {
+      if (autoPlayTTS && fullResponse) {
+        speak(fullResponse).catch(err => {
           console.error('TTS error:', err);
           // Don't show toast for TTS errors, just log them
         });
       }
     } catch (error: any) {
-      // Remove optimistic messages on error
-      setMessages(prev => prev.filter(msg => !msg.id.startsWith('temp-')));
-      
+      // Remove optimistic messages on error, keeping the question if rag-chat already stored it
+      const persisted = error instanceof RagChatError ? error : null;
+      setMessages(prev => [
+        ...prev.filter(msg => !msg.id.startsWith('temp-')),
+        ...(persisted?.userMessage ? [persisted.userMessage] : []),
+      ]);
+
+      if (!conversationId && persisted?.conversationId) {
+        setConversationId(persisted.conversationId);
+      }
+
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -264,6 +291,11 @@ const Chat = () => {
     }
   };
 
+  const getCitations = (msg: Message): Citation[] => {
+    const metadata = msg.metadata as { citations?: Citation[] } | null | undefined;
+    return metadata?.citations ?? [];
+  };
+
   const handleVoiceInput = async () => {
     if (isRecording) {
       const transcription = await stopRecording();
@@ -283,7 +315,7 @@ const Chat = () => {
             <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <h1 className="text-xl font-bold">Chat</h1>
+            <h1 className="text-xl font-bold">{t.chat.title}</h1>
           </div>
           
           <div className="flex flex-wrap gap-4 items-center">
@@ -294,7 +326,7 @@ const Chat = () => {
                 onCheckedChange={setRagEnabled}
               />
               <Label htmlFor="rag-toggle" className="text-sm">
-                {ragEnabled ? "🟢 RAG Active" : "⚪ RAG Inactive"}
+                {ragEnabled ? t.chat.ragActive : t.chat.ragInactive}
               </Label>
             </div>
 
@@ -305,17 +337,17 @@ const Chat = () => {
                 onCheckedChange={setAutoPlayTTS}
               />
               <Label htmlFor="tts-toggle" className="text-sm">
-                {autoPlayTTS ? "🔊 TTS Auto" : "🔇 TTS Manual"}
+                {autoPlayTTS ? t.chat.ttsAuto : t.chat.ttsManual}
               </Label>
             </div>
 
             {agents.length > 0 && (
               <Select value={selectedAgentId} onValueChange={setSelectedAgentId}>
                 <SelectTrigger className="w-[200px]">
-                  <SelectValue placeholder="Select agent" />
+                  <SelectValue placeholder={t.chat.selectAgent} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="default">Default</SelectItem>
+                  <SelectItem value="default">{t.chat.defaultAgent}</SelectItem>
                   {agents.map((agent) => (
                     <SelectItem key={agent.id} value={agent.id}>
                       {agent.name}
@@ -325,13 +357,45 @@ const Chat = () => {
               </Select>
             )}
 
+            {contexts.length > 0 && (
+              <Select value={selectedContextId} onValueChange={handleContextChange}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder={t.chat.selectContext} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.chat.noContext}</SelectItem>
+                  {contexts.map((context) => (
+                    <SelectItem key={context.id} value={context.id}>
+                      {context.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {selectedContextId !== "none" && contextVersions.length > 0 && (
+              <Select value={selectedContextVersionId} onValueChange={setSelectedContextVersionId}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder={t.chat.selectVersion} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">{t.chat.latestVersion}</SelectItem>
+                  {contextVersions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {t.chat.version(version.version_number)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             <Button 
               variant="outline" 
               onClick={() => setIsVoiceAssistantOpen(true)}
               className="gap-2"
             >
               <Phone className="h-4 w-4" />
-              Voice Assistant
+              {t.chat.voiceAssistant}
             </Button>
           </div>
         </div>
@@ -342,7 +406,7 @@ const Chat = () => {
           {messages.length === 0 && (
             <Card className="p-8 text-center">
               <p className="text-muted-foreground">
-                Start a conversation by typing a message below
+                {t.chat.empty}
               </p>
             </Card>
           )}
@@ -357,7 +421,11 @@ const Chat = () => {
               }`}
             >
               <div className="flex items-start justify-between gap-2">
-                <p className="whitespace-pre-wrap flex-1">{msg.content}</p>
+                {msg.role === "assistant" ? (
+                  <CitedMessage content={msg.content} citations={getCitations(msg)} />
+                ) : (
+                  <p className="whitespace-pre-wrap flex-1">{msg.content}</p>
+                )}
                 {msg.role === "assistant" && (
                   <Button
                     variant="ghost"
@@ -395,7 +463,7 @@ const Chat = () => {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyPress={(e) => e.key === "Enter" && handleSend()}
-              placeholder="Nachricht eingeben oder Mikrofon verwenden..."
+              placeholder={t.chat.inputPlaceholder}
               disabled={loading || isProcessing}
             />
             <Button onClick={handleSend} disabled={loading || isProcessing}>
@@ -0,0 +1,424 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, Plus, Trash2, Edit, Upload, X, History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import ContextVersionHistory from "@/components/ContextVersionHistory";
+import { useTranslation } from "@/i18n";
+
+interface Context {
+  id: string;
+  name: string;
+  description: string | null;
+  system_prompt: string | null;
+  document_ids: string[] | null;
+  created_at: string;
+}
+
+interface Document {
+  id: string;
+  title: string;
+  status: string;
+}
+
+const defaultFormData = {
+  name: "",
+  description: "",
+  system_prompt: "",
+  document_ids: [] as string[],
+};
+
+const Contexts = () => {
+  const [contexts, setContexts] = useState<Context[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(defaultFormData);
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [showDocumentPicker, setShowDocumentPicker] = useState(false);
+  const [historyContext, setHistoryContext] = useState<Context | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const fetchContexts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("contexts")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setContexts(data || []);
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.contexts.loadFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t]);
+
+  const fetchDocuments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("documents")
+        .select("id, title, status")
+        .eq("status", "completed")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setDocuments(data || []);
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchContexts();
+    fetchDocuments();
+  }, [fetchContexts]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setShowDocumentPicker(false);
+    setFormData(defaultFormData);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error(t.common.notAuthenticated);
+
+      const values = {
+        name: formData.name,
+        description: formData.description || null,
+        system_prompt: formData.system_prompt || null,
+        document_ids: formData.document_ids,
+      };
+
+      if (editingId) {
+        const { error } = await supabase
+          .from("contexts")
+          .update(values)
+          .eq("id", editingId);
+
+        if (error) throw error;
+
+        toast({
+          title: t.common.success,
+          description: t.contexts.updated,
+        });
+      } else {
+        const { error } = await supabase.from("contexts").insert([
+          {
+            ...values,
+            user_id: user.id,
+          },
+        ]);
+
+        if (error) throw error;
+
+        toast({
+          title: t.common.success,
+          description: t.contexts.created,
+        });
+      }
+
+      resetForm();
+      fetchContexts();
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.contexts.saveFailed,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (context: Context) => {
+    setFormData({
+      name: context.name,
+      description: context.description || "",
+      system_prompt: context.system_prompt || "",
+      document_ids: context.document_ids || [],
+    });
+    setEditingId(context.id);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t.contexts.deleteConfirm)) return;
+
+    try {
+      const { error } = await supabase.from("contexts").delete().eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: t.common.success,
+        description: t.contexts.deleted,
+      });
+      fetchContexts();
+    } catch (error) {
+      toast({
+        title: t.common.error,
+        description: error instanceof Error ? error.message : t.contexts.deleteFailed,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleDocument = (docId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      document_ids: prev.document_ids.includes(docId)
+        ? prev.document_ids.filter(id => id !== docId)
+        : [...prev.document_ids, docId]
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold">{t.contexts.title}</h1>
+          </div>
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t.contexts.newContext}
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {showForm ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardHeader>
+              <CardTitle>{editingId ? t.contexts.editContext : t.contexts.createContext}</CardTitle>
+              <CardDescription>
+                {t.contexts.formDescription}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">{t.common.name}</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder={t.contexts.namePlaceholder}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">{t.common.description}</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder={t.contexts.descriptionPlaceholder}
+                    rows={2}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="system_prompt">{t.contexts.systemPromptLabel}</Label>
+                  <Textarea
+                    id="system_prompt"
+                    value={formData.system_prompt}
+                    onChange={(e) => setFormData({ ...formData, system_prompt: e.target.value })}
+                    placeholder={t.contexts.systemPromptPlaceholder}
+                    rows={4}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{t.contexts.contextDocuments}</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowDocumentPicker(!showDocumentPicker)}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      {formData.document_ids.length > 0
+                        ? t.common.selectedCount(formData.document_ids.length)
+                        : t.common.selectDocuments}
+                    </Button>
+                  </div>
+
+                  {showDocumentPicker && (
+                    <Card className="p-4 max-h-60 overflow-y-auto">
+                      {documents.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-4">
+                          {t.common.noDocumentsAvailable}
+                        </p>
+                      ) : (
+                        <div className="space-y-2">
+                          {documents.map((doc) => (
+                            <div
+                              key={doc.id}
+                              className="flex items-center space-x-2 p-2 hover:bg-accent rounded cursor-pointer"
+                              onClick={() => toggleDocument(doc.id)}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={formData.document_ids.includes(doc.id)}
+                                onChange={() => toggleDocument(doc.id)}
+                                className="h-4 w-4"
+                              />
+                              <span className="text-sm flex-1">{doc.title}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </Card>
+                  )}
+
+                  {formData.document_ids.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {formData.document_ids.map((docId) => {
+                        const doc = documents.find(d => d.id === docId);
+                        return doc ? (
+                          <div
+                            key={docId}
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-primary/10 text-primary rounded text-sm"
+                          >
+                            <span>{doc.title}</span>
+                            <button
+                              type="button"
+                              onClick={() => toggleDocument(docId)}
+                              className="hover:bg-primary/20 rounded-full p-0.5"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                        ) : null;
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1">
+                    {editingId ? t.contexts.submitUpdate : t.contexts.submitCreate}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    {t.common.cancel}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {loading ? (
+              <p>{t.contexts.loading}</p>
+            ) : contexts.length === 0 ? (
+              <Card className="col-span-full">
+                <CardContent className="p-8 text-center">
+                  <p className="text-muted-foreground">{t.contexts.empty}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              contexts.map((context) => (
+                <Card key={context.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>{context.name}</span>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryContext(context)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(context)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(context.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardTitle>
+                    {context.description && (
+                      <CardDescription>{context.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">{t.contexts.documentsLabel}</span>
+                        <span>{context.document_ids?.length || 0}</span>
+                      </div>
+                      {context.document_ids && context.document_ids.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {context.document_ids.slice(0, 3).map((docId) => {
+                            const doc = documents.find(d => d.id === docId);
+                            return doc ? (
+                              <span key={docId} className="text-xs px-2 py-0.5 bg-primary/10 text-primary rounded">
+                                {doc.title}
+                              </span>
+                            ) : null;
+                          })}
+                          {context.document_ids.length > 3 && (
+                            <span className="text-xs px-2 py-0.5 bg-muted rounded">
+                              {t.common.more(context.document_ids.length - 3)}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {context.system_prompt && (
+                        <div className="pt-2 border-t">
+                          <p className="text-muted-foreground mb-1">{t.common.systemPrompt}:</p>
+                          <p className="text-xs line-clamp-3">{context.system_prompt}</p>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        )}
+      </main>
+
+      <ContextVersionHistory
+        contextId={historyContext?.id ?? null}
+        contextName={historyContext?.name ?? ""}
+        documents={documents}
+        onOpenChange={(open) => !open && setHistoryContext(null)}
+        onRestored={fetchContexts}
+      />
+    </div>
+  );
+};
+
+export default Contexts;
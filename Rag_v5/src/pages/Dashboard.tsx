@@ -4,11 +4,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { LogOut, FileText, MessageSquare, Settings, Upload, Bot } from "lucide-react";
+import { LogOut, FileText, MessageSquare, Settings, Upload, Bot, Layers, Globe } from "lucide-react";
 import DocumentList from "@/components/DocumentList";
 import ConversationList from "@/components/ConversationList";
 import { useToast } from "@/hooks/use-toast";
 import Footer from "@/components/Footer";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { useTranslation } from "@/i18n";
 const Dashboard = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -16,6 +18,9 @@ const Dashboard = () => {
   const {
     toast
   } = useToast();
+  const {
+    t
+  } = useTranslation();
   useEffect(() => {
     const checkUser = async () => {
       const {
@@ -55,7 +60,7 @@ const Dashboard = () => {
     return <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-          <p className="mt-4 text-muted-foreground">Loading...</p>
+          <p className="mt-4 text-muted-foreground">{t.common.loading}</p>
         </div>
       </div>;
   }
@@ -64,8 +69,8 @@ const Dashboard = () => {
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <h1 className="text-2xl font-bold">Verbotic CONTEXA</h1>
           <div className="flex items-center gap-2">
-            
-            <Button variant="ghost" size="icon" onClick={handleSignOut}>
+            <LanguageSwitcher />
+            <Button variant="ghost" size="icon" onClick={handleSignOut} aria-label={t.dashboard.signOut}>
               <LogOut className="h-5 w-5" />
             </Button>
           </div>
@@ -78,15 +83,21 @@ const Dashboard = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Documents</CardTitle>
+                  <CardTitle>{t.dashboard.documentsTitle}</CardTitle>
                   <CardDescription>
-                    Upload and manage your PDF documents for RAG
+                    {t.dashboard.documentsDescription}
                   </CardDescription>
                 </div>
-                <Button onClick={() => navigate("/upload")}>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload
-                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => navigate("/add-url")}>
+                    <Globe className="mr-2 h-4 w-4" />
+                    {t.dashboard.addUrl}
+                  </Button>
+                  <Button onClick={() => navigate("/upload")}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {t.dashboard.upload}
+                  </Button>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -98,12 +109,12 @@ const Dashboard = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Conversations</CardTitle>
-                  <CardDescription>Your chat history</CardDescription>
+                  <CardTitle>{t.dashboard.conversationsTitle}</CardTitle>
+                  <CardDescription>{t.dashboard.conversationsDescription}</CardDescription>
                 </div>
                 <Button onClick={handleNewChat} size="sm">
                   <MessageSquare className="mr-2 h-4 w-4" />
-                  New
+                  {t.dashboard.newChat}
                 </Button>
               </div>
             </CardHeader>
@@ -116,9 +127,9 @@ const Dashboard = () => {
         <div className="mt-6">
           <Card>
             <CardHeader>
-              <CardTitle>Quick Start</CardTitle>
+              <CardTitle>{t.dashboard.quickStart}</CardTitle>
               <CardDescription>
-                Get started with your Verbotic CONTEXA assistant
+                {t.dashboard.quickStartDescription}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -127,9 +138,9 @@ const Dashboard = () => {
                   <FileText className="h-4 w-4 text-primary" />
                 </div>
                 <div>
-                  <h3 className="font-medium mb-1">1. Upload Documents</h3>
+                  <h3 className="font-medium mb-1">{t.dashboard.uploadStepTitle}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Upload PDF documents that contain the knowledge you want the AI to use
+                    {t.dashboard.uploadStepDescription}
                   </p>
                 </div>
               </div>
@@ -138,12 +149,26 @@ const Dashboard = () => {
                   <Bot className="h-4 w-4 text-primary" />
                 </div>
                 <div>
-                  <h3 className="font-medium mb-1">2. Create Agents</h3>
+                  <h3 className="font-medium mb-1">{t.dashboard.agentsStepTitle}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Configure AI agents with custom behaviors and RAG settings
+                    {t.dashboard.agentsStepDescription}
                   </p>
                   <Button variant="link" className="px-0 h-auto" onClick={() => navigate("/agents")}>
-                    Manage Agents →
+                    {t.dashboard.manageAgents}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-start gap-4">
+                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center flex-shrink-0">
+                  <Layers className="h-4 w-4 text-primary" />
+                </div>
+                <div>
+                  <h3 className="font-medium mb-1">{t.dashboard.contextsStepTitle}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {t.dashboard.contextsStepDescription}
+                  </p>
+                  <Button variant="link" className="px-0 h-auto" onClick={() => navigate("/contexts")}>
+                    {t.dashboard.manageContexts}
                   </Button>
                 </div>
               </div>
@@ -152,9 +177,9 @@ const Dashboard = () => {
                   <MessageSquare className="h-4 w-4 text-primary" />
                 </div>
                 <div>
-                  <h3 className="font-medium mb-1">3. Start a Conversation</h3>
+                  <h3 className="font-medium mb-1">{t.dashboard.chatStepTitle}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Create a new chat and ask questions about your documents
+                    {t.dashboard.chatStepDescription}
                   </p>
                 </div>
               </div>
@@ -3,14 +3,20 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { FileText, MessageSquare, Brain, ArrowRight } from "lucide-react";
 import heroImage from "@/assets/hero-image.jpg";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { useTranslation } from "@/i18n";
 
 const Index = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   return (
     <div className="min-h-screen bg-background">
       <div className="relative h-[400px] mb-16 overflow-hidden">
-        <img src={heroImage} alt="AI Technology" className="w-full h-full object-cover opacity-30" />
+        <div className="absolute top-4 right-4 z-20">
+          <LanguageSwitcher />
+        </div>
+        <img src={heroImage} alt={t.index.heroAlt} className="w-full h-full object-cover opacity-30" />
         <div className="absolute inset-0 bg-gradient-to-b from-transparent to-background" />
       </div>
       <div className="container mx-auto px-4 -mt-64 relative z-10">
@@ -19,11 +25,11 @@ const Index = () => {
             Verbotic CONTEXA
           </h1>
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-            Upload your documents and chat with an AI powered by Retrieval-Augmented Generation
+            {t.index.tagline}
           </p>
           <div className="mt-8 flex gap-4 justify-center">
             <Button size="lg" onClick={() => navigate("/auth")}>
-              Get Started
+              {t.index.getStarted}
               <ArrowRight className="ml-2 h-5 w-5" />
             </Button>
           </div>
@@ -35,10 +41,8 @@ const Index = () => {
               <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center mb-4">
                 <FileText className="h-6 w-6 text-primary" />
               </div>
-              <CardTitle>Upload Documents</CardTitle>
-              <CardDescription>
-                Upload PDF documents containing the knowledge you want the AI to access
-              </CardDescription>
+              <CardTitle>{t.index.uploadTitle}</CardTitle>
+              <CardDescription>{t.index.uploadDescription}</CardDescription>
             </CardHeader>
           </Card>
 
@@ -47,10 +51,8 @@ const Index = () => {
               <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center mb-4">
                 <Brain className="h-6 w-6 text-primary" />
               </div>
-              <CardTitle>AI Processing</CardTitle>
-              <CardDescription>
-                Documents are processed and embedded using advanced vector search technology
-              </CardDescription>
+              <CardTitle>{t.index.processingTitle}</CardTitle>
+              <CardDescription>{t.index.processingDescription}</CardDescription>
             </CardHeader>
           </Card>
 
@@ -59,10 +61,8 @@ const Index = () => {
               <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center mb-4">
                 <MessageSquare className="h-6 w-6 text-primary" />
               </div>
-              <CardTitle>Chat & Query</CardTitle>
-              <CardDescription>
-                Ask questions and get accurate answers based on your uploaded documents
-              </CardDescription>
+              <CardTitle>{t.index.chatTitle}</CardTitle>
+              <CardDescription>{t.index.chatDescription}</CardDescription>
             </CardHeader>
           </Card>
         </div>
@@ -70,34 +70,28 @@ const Index = () => {
         <div className="mt-16 max-w-3xl mx-auto">
           <Card>
             <CardHeader>
-              <CardTitle>Features</CardTitle>
+              <CardTitle>{t.index.features}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 rounded-full bg-primary mt-2" />
                 <div>
-                  <h3 className="font-medium">Secure & Private</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Your documents are stored securely and only accessible to you
-                  </p>
+                  <h3 className="font-medium">{t.index.secureTitle}</h3>
+                  <p className="text-sm text-muted-foreground">{t.index.secureDescription}</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 rounded-full bg-primary mt-2" />
                 <div>
-                  <h3 className="font-medium">Context Management</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Create and manage different contexts with specific documents
-                  </p>
+                  <h3 className="font-medium">{t.index.contextTitle}</h3>
+                  <p className="text-sm text-muted-foreground">{t.index.contextDescription}</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 rounded-full bg-primary mt-2" />
                 <div>
-                  <h3 className="font-medium">Chat History</h3>
-                  <p className="text-sm text-muted-foreground">
-                    All your conversations are saved with versioning support
-                  </p>
+                  <h3 className="font-medium">{t.index.historyTitle}</h3>
+                  <p className="text-sm text-muted-foreground">{t.index.historyDescription}</p>
                 </div>
               </div>
             </CardContent>
@@ -6,13 +6,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, Upload as UploadIcon, Loader2, X, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { useTranslation } from "@/i18n";
+
+// "default" uses the server's configured embedding model, "local" the on-prem one
+const EMBEDDING_OPTIONS = ["default", "local"];
 
 const Upload = () => {
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
+  const [embeddingOption, setEmbeddingOption] = useState("default");
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
@@ -20,15 +26,19 @@ const Upload = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   const validateAndSetFile = (selectedFile: File) => {
     const ext = selectedFile.name.split('.').pop()?.toLowerCase();
-    const validExts = ['pdf', 'txt', 'csv', 'docx'];
+    const validExts = [
+      'pdf', 'txt', 'csv', 'docx', 'md', 'markdown', 'html', 'htm', 'pptx', 'xlsx', 'odt', 'eml',
+      'png', 'jpg', 'jpeg', 'tif', 'tiff',
+    ];
     
     if (!validExts.includes(ext || '')) {
       toast({
-        title: "Invalid file type",
-        description: "Please upload a PDF, TXT, CSV, or DOCX file",
+        title: t.upload.invalidType,
+        description: t.upload.invalidTypeDescription,
         variant: "destructive",
       });
       return false;
@@ -80,8 +90,8 @@ const Upload = () => {
       setUploading(false);
       setUploadProgress(0);
       toast({
-        title: "Upload cancelled",
-        description: "The upload has been cancelled",
+        title: t.upload.cancelled,
+        description: t.upload.cancelledDescription,
       });
     }
   };
@@ -89,8 +99,8 @@ const Upload = () => {
   const handleUpload = async () => {
     if (!file || !title.trim()) {
       toast({
-        title: "Error",
-        description: "Please select a file and enter a title",
+        title: t.common.error,
+        description: t.upload.missingFields,
         variant: "destructive",
       });
       return;
@@ -103,7 +113,7 @@ const Upload = () => {
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      if (!user) throw new Error(t.common.notAuthenticated);
 
       // Simulate upload progress
       const progressInterval = setInterval(() => {
@@ -142,6 +152,7 @@ const Upload = () => {
             mime_type: file.type,
             status: "processing",
             processing_progress: 0,
+            embedding_model: embeddingOption === "default" ? null : embeddingOption,
           },
         ])
         .select()
@@ -149,16 +160,28 @@ const Upload = () => {
 
       if (dbError) throw dbError;
 
+      // Queue document processing; the worker picks the job up in the background
+      const { error: jobError } = await supabase
+        .from("processing_jobs")
+        .insert([{ document_id: docData.id, user_id: user.id }]);
+
+      if (jobError) {
+        // Without a job the document would stay 'processing'; as failed it can be retried from the dashboard
+        await supabase
+          .from("documents")
+          .update({ status: "failed", error_message: jobError.message })
+          .eq("id", docData.id);
+        throw jobError;
+      }
+
       setUploadProgress(100);
 
-      // Trigger document processing
-      await supabase.functions.invoke("process-document", {
-        body: { document_id: docData.id },
-      });
+      // Start a worker right away instead of waiting for the scheduled run
+      void supabase.functions.invoke("process-worker");
 
       toast({
-        title: "Success",
-        description: "Document uploaded and processing started",
+        title: t.common.success,
+        description: t.upload.started,
       });
 
       navigate("/dashboard");
@@ -167,7 +190,7 @@ const Upload = () => {
         return;
       }
       toast({
-        title: "Error",
+        title: t.common.error,
         description: error.message,
         variant: "destructive",
       });
@@ -184,31 +207,48 @@ const Upload = () => {
           <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          <h1 className="text-xl font-bold">Upload Document</h1>
+          <h1 className="text-xl font-bold">{t.upload.title}</h1>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8 max-w-2xl">
         <Card>
           <CardHeader>
-            <CardTitle>Upload Document</CardTitle>
+            <CardTitle>{t.upload.title}</CardTitle>
             <CardDescription>
-              Upload PDF, TXT, CSV, or DOCX documents to use with your Verbotic CONTEXA assistant
+              {t.upload.description}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="title">Document Title</Label>
+              <Label htmlFor="title">{t.upload.documentTitle}</Label>
               <Input
                 id="title"
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
-                placeholder="Enter document title"
+                placeholder={t.upload.titlePlaceholder}
               />
             </div>
 
             <div className="space-y-2">
-              <Label>File Upload</Label>
+              <Label htmlFor="embedding_model">{t.upload.embeddingModel}</Label>
+              <Select value={embeddingOption} onValueChange={setEmbeddingOption} disabled={uploading}>
+                <SelectTrigger id="embedding_model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMBEDDING_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t.upload.embeddingModels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{t.upload.embeddingModelHint}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.upload.fileUpload}</Label>
               
               {/* Drag & Drop Zone */}
               <div
@@ -237,17 +277,15 @@ const Upload = () => {
                   
                   <div className="space-y-1">
                     <p className="text-sm font-medium">
-                      {isDragging 
-                        ? "Drop your file here" 
-                        : "Drag & drop your file here"}
+                      {isDragging ? t.upload.dropHere : t.upload.dragHere}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      or click to browse
+                      {t.upload.browse}
                     </p>
                   </div>
                   
                   <p className="text-xs text-muted-foreground">
-                    Supported formats: PDF, TXT, CSV, DOCX
+                    {t.upload.supportedFormats}
                   </p>
                 </div>
               </div>
@@ -257,7 +295,7 @@ const Upload = () => {
                 ref={fileInputRef}
                 id="file"
                 type="file"
-                accept=".pdf,.txt,.csv,.docx"
+                accept=".pdf,.txt,.csv,.docx,.md,.markdown,.html,.htm,.pptx,.xlsx,.odt,.eml,.png,.jpg,.jpeg,.tif,.tiff"
                 onChange={handleFileChange}
                 disabled={uploading}
                 className="hidden"
@@ -266,7 +304,7 @@ const Upload = () => {
 
             {file && (
               <div className="p-4 bg-secondary/50 rounded-lg space-y-2">
-                <p className="text-sm font-medium">Selected File:</p>
+                <p className="text-sm font-medium">{t.upload.selectedFile}</p>
                 <p className="text-sm text-muted-foreground">{file.name}</p>
                 <p className="text-xs text-muted-foreground">
                   {(file.size / 1024 / 1024).toFixed(2)} MB
@@ -275,7 +313,7 @@ const Upload = () => {
                 {uploading && (
                   <div className="space-y-2 pt-2">
                     <div className="flex items-center justify-between text-xs">
-                      <span>Uploading...</span>
+                      <span>{t.upload.uploading}</span>
                       <span>{uploadProgress}%</span>
                     </div>
                     <Progress value={uploadProgress} className="h-2" />
@@ -293,12 +331,12 @@ const Upload = () => {
                 {uploading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Uploading...
+                    {t.upload.uploading}
                   </>
                 ) : (
                   <>
                     <UploadIcon className="mr-2 h-4 w-4" />
-                    Upload Document
+                    {t.upload.submit}
                   </>
                 )}
               </Button>
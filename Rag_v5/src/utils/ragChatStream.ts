@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export interface RagChatRequest {
+  message: string;
+  // When null, rag-chat creates the conversation with the settings below
+  conversation_id: string | null;
+  rag_enabled: boolean;
+  agent_id?: string | null;
+  context_id?: string | null;
+  context_version_id?: string | null;
+  title?: string;
+}
+
+// A type alias rather than an interface so citations can be stored as Json
+export type Citation = {
+  index: number;
+  chunk_id: string;
+  document_id: string;
+  document_title: string;
+  chunk_index: number | null;
+  page_number?: number | null;
+  heading_path?: string[];
+  similarity: number;
+  snippet: string;
+};
+
+// Whether an answer came from the documents, was refused, or used general knowledge
+export type Grounding = "documents" | "refused" | "disclaimer" | "general";
+
+export interface RagChatDoneEvent {
+  type: "done";
+  // The turn as persisted by rag-chat
+  conversation_id: string;
+  user_message: Tables<"messages">;
+  assistant_message: Tables<"messages">;
+  rag_used: boolean;
+  grounding: Grounding;
+  citations: Citation[];
+  metadata: Record<string, unknown>;
+}
+
+// The question as persisted by rag-chat, missing when it failed before storing it
+interface PersistedQuestion {
+  conversation_id?: string;
+  user_message?: Tables<"messages">;
+}
+
+type RagChatEvent =
+  | { type: "delta"; content: string }
+  | RagChatDoneEvent
+  | ({ type: "error"; error: string } & PersistedQuestion);
+
+// A failed turn. rag-chat stores the question before answering, so callers
+// keep the persisted message and conversation when these are set.
+export class RagChatError extends Error {
+  conversationId: string | null;
+  userMessage: Tables<"messages"> | null;
+
+  constructor(message: string, question: PersistedQuestion = {}) {
+    super(message);
+    this.name = "RagChatError";
+    this.conversationId = question.conversation_id ?? null;
+    this.userMessage = question.user_message ?? null;
+  }
+}
+
+// Calls the rag-chat edge function and reads its Server-Sent Events stream.
+// `onDelta` receives every token chunk as it arrives; the returned promise
+// resolves with the final "done" event once the stream has ended. rag-chat
+// stores both messages itself, so callers must not insert them.
+export const streamRagChat = async (
+  body: RagChatRequest,
+  onDelta: (content: string) => void,
+  signal?: AbortSignal,
+): Promise<RagChatDoneEvent> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not authenticated");
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/rag-chat`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let errorMessage = `rag-chat failed with status ${response.status}`;
+    let question: PersistedQuestion = {};
+    try {
+      const errorBody = await response.json();
+      errorMessage = errorBody.error || errorMessage;
+      question = errorBody;
+    } catch (e) {
+      console.error("Failed to parse rag-chat error response:", e);
+    }
+    throw new RagChatError(errorMessage, question);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let doneEvent: RagChatDoneEvent | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const rawEvent of events) {
+      const dataLine = rawEvent.split("\n").find((line) => line.startsWith("data:"));
+      if (!dataLine) continue;
+
+      const event = JSON.parse(dataLine.slice(5).trim()) as RagChatEvent;
+      if (event.type === "delta") {
+        onDelta(event.content);
+      } else if (event.type === "done") {
+        doneEvent = event;
+      } else if (event.type === "error") {
+        throw new RagChatError(event.error, event);
+      }
+    }
+  }
+
+  if (!doneEvent) {
+    throw new Error("rag-chat stream ended unexpectedly");
+  }
+
+  return doneEvent;
+};
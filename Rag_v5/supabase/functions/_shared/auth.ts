@@ -0,0 +1,21 @@
+// Callers of the scheduled functions. pg_cron sends the service role key from
+// Vault; anything else has to identify a signed-in user.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+const bearerToken = (req: Request) => (req.headers.get("authorization") ?? "").replace("Bearer ", "");
+
+export const isServiceRoleRequest = (req: Request) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!serviceRoleKey && bearerToken(req) === serviceRoleKey;
+};
+
+// Whether the request carries a valid session of a signed-in user
+export const isUserRequest = async (supabase: SupabaseClient, req: Request) => {
+  const token = bearerToken(req);
+  if (!token) return false;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+  return !!user;
+};
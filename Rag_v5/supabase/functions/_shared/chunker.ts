@@ -0,0 +1,370 @@
+// Structure-aware document chunking shared by the ingestion functions.
+//
+// Chunk sizes are measured in tokens. We do not ship a tokenizer to the edge
+// runtime, so tokens are estimated at roughly four characters each, which is
+// close enough for OpenAI models on German and English prose.
+import { normalizeTable, parseCsv, renderMarkdownRow, renderMarkdownTable, type Table, type TableBlock } from "./tables.ts";
+
+export type ChunkerMode = "recursive" | "csv" | "pdf";
+
+export interface ChunkerOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export interface ChunkerInput {
+  text: string;
+  // Per-page text for page-aware chunking; `text` is then the pages joined with PAGE_SEPARATOR
+  pages?: string[];
+  // Tables rendered as Markdown into `text`; they are chunked by rows
+  tables?: TableBlock[];
+}
+
+export interface ChunkMetadata {
+  chunk_index: number;
+  char_start: number;
+  char_end: number;
+  heading_path: string[];
+  token_estimate: number;
+  page_number?: number;
+  row_start?: number;
+  row_end?: number;
+  // The chunk's rows of a table, with the table's header
+  table?: Table;
+}
+
+export interface Chunk {
+  content: string;
+  metadata: ChunkMetadata;
+}
+
+// Chunkers produce chunks in document order; chunkDocument assigns the indices
+type PendingChunk = { content: string; metadata: Omit<ChunkMetadata, "chunk_index"> };
+
+type Chunker = (input: ChunkerInput, options: ChunkerOptions) => PendingChunk[];
+
+export const DEFAULT_CHUNKER_OPTIONS: ChunkerOptions = {
+  chunkSize: 400,
+  chunkOverlap: 60,
+};
+
+export const PAGE_SEPARATOR = "\n\n";
+
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const spanTokens = (span: Span) => Math.ceil((span.end - span.start) / CHARS_PER_TOKEN);
+
+// Separators from coarsest to finest: paragraphs, lines, sentences, words
+const SEPARATORS = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+// Splits `span` at the first separator level that yields pieces within the
+// token budget, recursing into finer separators for oversized pieces.
+const splitSpan = (text: string, span: Span, maxTokens: number, level = 0): Span[] => {
+  if (spanTokens(span) <= maxTokens) return [span];
+
+  if (level >= SEPARATORS.length) {
+    // No natural boundary left: fall back to a hard character split
+    const pieces: Span[] = [];
+    // At least one character per piece, so a tiny budget cannot stall the loop
+    const step = Math.max(Math.floor(maxTokens * CHARS_PER_TOKEN), 1);
+    for (let start = span.start; start < span.end; start += step) {
+      pieces.push({ start, end: Math.min(start + step, span.end) });
+    }
+    return pieces;
+  }
+
+  const separator = new RegExp(SEPARATORS[level].source, "g");
+  const segment = text.slice(span.start, span.end);
+  const pieces: Span[] = [];
+  let pieceStart = span.start;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(segment)) !== null) {
+    // Keep the separator attached to the preceding piece so spans stay contiguous
+    const pieceEnd = span.start + match.index + match[0].length;
+    if (pieceEnd > pieceStart) pieces.push({ start: pieceStart, end: pieceEnd });
+    pieceStart = pieceEnd;
+    if (match[0].length === 0) separator.lastIndex++;
+  }
+  if (pieceStart < span.end) pieces.push({ start: pieceStart, end: span.end });
+
+  if (pieces.length <= 1) return splitSpan(text, span, maxTokens, level + 1);
+
+  return pieces.flatMap((piece) => splitSpan(text, piece, maxTokens, level + 1));
+};
+
+// Greedily packs consecutive pieces into windows of at most `chunkSize`
+// tokens, carrying up to `chunkOverlap` tokens of trailing pieces into the
+// next window.
+const packSpans = (pieces: Span[], { chunkSize, chunkOverlap }: ChunkerOptions): Span[] => {
+  const windows: Span[] = [];
+  let current: Span[] = [];
+  const tokensOf = (spans: Span[]) => spans.reduce((sum, span) => sum + spanTokens(span), 0);
+
+  for (const piece of pieces) {
+    if (current.length > 0 && tokensOf(current) + spanTokens(piece) > chunkSize) {
+      windows.push({ start: current[0].start, end: current[current.length - 1].end });
+
+      const overlap: Span[] = [];
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (tokensOf(overlap) + spanTokens(current[i]) > chunkOverlap) break;
+        overlap.unshift(current[i]);
+      }
+      current = overlap;
+      while (current.length > 0 && tokensOf(current) + spanTokens(piece) > chunkSize) {
+        current.shift();
+      }
+    }
+    current.push(piece);
+  }
+
+  if (current.length > 0) {
+    windows.push({ start: current[0].start, end: current[current.length - 1].end });
+  }
+
+  return windows;
+};
+
+interface Heading {
+  level: number;
+  title: string;
+}
+
+// Recognises Markdown headings ("## Title") and numbered headings ("3.2 Title")
+const parseHeading = (line: string): Heading | null => {
+  const trimmed = line.trim();
+  const markdown = trimmed.match(/^(#{1,6})\s+(.+)$/);
+  if (markdown) return { level: markdown[1].length, title: markdown[2].trim() };
+
+  const numbered = trimmed.match(/^(\d+(?:\.\d+)*)\.?\s+(\S.{0,98})$/);
+  if (numbered && !/[.:;,]$/.test(numbered[2])) {
+    return { level: numbered[1].split(".").length, title: trimmed };
+  }
+
+  return null;
+};
+
+interface Section {
+  span: Span;
+  headingPath: string[];
+}
+
+// Splits text into sections at heading lines. `headingStack` is mutated so a
+// heading path can continue across page boundaries.
+const splitSections = (text: string, range: Span, headingStack: Heading[]): Section[] => {
+  const sections: Section[] = [];
+  let sectionStart = range.start;
+  let path = headingStack.map((h) => h.title);
+  let lineStart = range.start;
+  let sectionHasBody = false;
+
+  while (lineStart < range.end) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 || newline >= range.end ? range.end : newline + 1;
+    const line = text.slice(lineStart, lineEnd);
+    const heading = parseHeading(line);
+
+    if (heading) {
+      // A heading directly followed by a subheading stays with the subsection
+      if (sectionHasBody) {
+        sections.push({ span: { start: sectionStart, end: lineStart }, headingPath: path });
+        sectionStart = lineStart;
+        sectionHasBody = false;
+      }
+
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+        headingStack.pop();
+      }
+      headingStack.push(heading);
+      path = headingStack.map((h) => h.title);
+    } else if (line.trim()) {
+      sectionHasBody = true;
+    }
+
+    lineStart = lineEnd;
+  }
+
+  if (range.end > sectionStart) sections.push({ span: { start: sectionStart, end: range.end }, headingPath: path });
+
+  return sections;
+};
+
+// Splits a table into groups of rows within the token budget. Every chunk is
+// a Markdown table with the header, so each row is read with its column names,
+// and carries its rows as JSON for consumers that need the cells.
+const chunkTable = (
+  table: Table,
+  rowSpans: Span[],
+  options: ChunkerOptions,
+  extra: Partial<ChunkMetadata>,
+): PendingChunk[] => {
+  const headerTokens = estimateTokens(renderMarkdownTable({ headers: table.headers, rows: [] }));
+  const budget = Math.max(options.chunkSize - headerTokens, 1);
+  const chunks: PendingChunk[] = [];
+  let groupStart = 0;
+  let groupTokens = 0;
+
+  const flush = (groupEnd: number) => {
+    if (groupEnd <= groupStart) return;
+    const rows = table.rows.slice(groupStart, groupEnd);
+    const content = renderMarkdownTable({ headers: table.headers, rows });
+
+    chunks.push({
+      content,
+      metadata: {
+        char_start: rowSpans[groupStart].start,
+        char_end: rowSpans[groupEnd - 1].end,
+        heading_path: [],
+        token_estimate: estimateTokens(content),
+        row_start: groupStart + 1,
+        row_end: groupEnd,
+        table: { headers: table.headers, rows },
+        ...extra,
+      },
+    });
+    groupStart = groupEnd;
+    groupTokens = 0;
+  };
+
+  table.rows.forEach((row, i) => {
+    const rowTokens = estimateTokens(renderMarkdownRow(row));
+    if (i > groupStart && groupTokens + rowTokens > budget) flush(i);
+    groupTokens += rowTokens;
+  });
+  flush(table.rows.length);
+
+  return chunks;
+};
+
+// Spans of a rendered Markdown table's rows, after the header and separator lines
+const markdownRowSpans = (text: string, table: TableBlock): Span[] => {
+  const spans: Span[] = [];
+  let lineStart = table.start;
+
+  while (lineStart < table.end) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 || newline > table.end ? table.end : newline;
+    spans.push({ start: lineStart, end: lineEnd });
+    lineStart = lineEnd + 1;
+  }
+
+  return spans.slice(2);
+};
+
+// Chunks the text of `range` by sections and the tables inside it by rows
+const chunkRange = (
+  text: string,
+  range: Span,
+  headingStack: Heading[],
+  options: ChunkerOptions,
+  tables: TableBlock[] = [],
+  pageNumber?: number,
+) => {
+  const pageMetadata = pageNumber !== undefined ? { page_number: pageNumber } : {};
+  const chunkText = (span: Span) =>
+    splitSections(text, span, headingStack).flatMap((section) =>
+      packSpans(splitSpan(text, section.span, options.chunkSize), options).map((window) =>
+        toChunk(text, window, { heading_path: section.headingPath, ...pageMetadata }),
+      ),
+    );
+
+  const chunks: PendingChunk[] = [];
+  let position = range.start;
+
+  for (const table of tables.filter((table) => table.start >= range.start && table.end <= range.end)) {
+    if (table.start > position) chunks.push(...chunkText({ start: position, end: table.start }));
+    chunks.push(
+      ...chunkTable(table, markdownRowSpans(text, table), options, {
+        heading_path: headingStack.map((h) => h.title),
+        ...pageMetadata,
+      }),
+    );
+    position = table.end;
+  }
+  if (range.end > position) chunks.push(...chunkText({ start: position, end: range.end }));
+
+  return chunks;
+};
+
+// Trims whitespace from a window while keeping its offsets exact
+const toChunk = (text: string, window: Span, extra: Partial<ChunkMetadata>): PendingChunk => {
+  const raw = text.slice(window.start, window.end);
+  const leading = raw.length - raw.trimStart().length;
+  const content = raw.trim();
+  const charStart = window.start + leading;
+
+  return {
+    content,
+    metadata: {
+      char_start: charStart,
+      char_end: charStart + content.length,
+      heading_path: [],
+      token_estimate: estimateTokens(content),
+      ...extra,
+    },
+  };
+};
+
+const recursiveChunker: Chunker = ({ text, tables }, options) =>
+  chunkRange(text, { start: 0, end: text.length }, [], options, tables);
+
+// Never lets a chunk cross a page boundary and records the page number
+const pdfChunker: Chunker = ({ text, pages, tables }, options) => {
+  if (!pages || pages.length === 0) return recursiveChunker({ text, tables }, options);
+
+  const headingStack: Heading[] = [];
+  let offset = 0;
+
+  return pages.flatMap((page, i) => {
+    const range = { start: offset, end: offset + page.length };
+    offset = range.end + PAGE_SEPARATOR.length;
+    return chunkRange(text, range, headingStack, options, tables, i + 1);
+  });
+};
+
+// Parses the CSV into a table and chunks it like tables found in other documents
+const csvChunker: Chunker = ({ text }, options) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const table = normalizeTable(header.cells, rows.map((row) => row.cells));
+  return chunkTable(table, rows, options, {});
+};
+
+const chunkers: Record<ChunkerMode, Chunker> = {
+  recursive: recursiveChunker,
+  csv: csvChunker,
+  pdf: pdfChunker,
+};
+
+export const isChunkerMode = (value: unknown): value is ChunkerMode =>
+  typeof value === "string" && Object.keys(chunkers).includes(value);
+
+export const selectChunkerMode = (mimeType: string | null, fileName: string): ChunkerMode => {
+  if (mimeType === "text/csv" || fileName.endsWith(".csv")) return "csv";
+  if (mimeType === "application/pdf" || fileName.endsWith(".pdf")) return "pdf";
+  // Slides are extracted as pages, so chunks never span two slides
+  if (fileName.endsWith(".pptx")) return "pdf";
+  return "recursive";
+};
+
+export const chunkDocument = (
+  mode: ChunkerMode,
+  input: ChunkerInput,
+  options: ChunkerOptions = DEFAULT_CHUNKER_OPTIONS,
+): Chunk[] => {
+  if (options.chunkOverlap >= options.chunkSize) {
+    throw new Error("chunk_overlap must be smaller than chunk_size");
+  }
+
+  return chunkers[mode](input, options)
+    .filter((chunk) => chunk.content.length > 0)
+    .map((chunk, i) => ({ content: chunk.content, metadata: { chunk_index: i, ...chunk.metadata } }));
+};
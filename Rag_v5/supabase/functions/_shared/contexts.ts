@@ -0,0 +1,62 @@
+// Resolves which version of a context a conversation answers from.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export interface ResolvedContext {
+  version_id: string | null;
+  version_number: number | null;
+  document_ids: string[];
+  system_prompt: string | null;
+}
+
+// A conversation pinned to a version uses that snapshot; otherwise the live
+// context is used together with its latest version for attribution. Returns
+// null when the context does not exist or belongs to another user.
+export const resolveConversationContext = async (
+  supabase: SupabaseClient,
+  userId: string,
+  contextId: string,
+  pinnedVersionId: string | null,
+): Promise<ResolvedContext | null> => {
+  const { data: context } = await supabase
+    .from("contexts")
+    .select("document_ids, system_prompt")
+    .eq("id", contextId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!context) return null;
+
+  if (pinnedVersionId) {
+    const { data: version } = await supabase
+      .from("context_versions")
+      .select("id, version_number, document_ids, system_prompt")
+      .eq("id", pinnedVersionId)
+      .eq("context_id", contextId)
+      .maybeSingle();
+
+    if (version) {
+      return {
+        version_id: version.id,
+        version_number: version.version_number,
+        document_ids: version.document_ids || [],
+        system_prompt: version.system_prompt,
+      };
+    }
+    console.warn(`Pinned context version ${pinnedVersionId} not found, using latest`);
+  }
+
+  const { data: latest } = await supabase
+    .from("context_versions")
+    .select("id, version_number")
+    .eq("context_id", contextId)
+    .order("version_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    version_id: latest?.id ?? null,
+    version_number: latest?.version_number ?? null,
+    document_ids: context.document_ids || [],
+    system_prompt: context.system_prompt,
+  };
+};
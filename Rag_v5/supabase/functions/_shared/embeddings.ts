@@ -0,0 +1,244 @@
+// Embedding generation behind pluggable providers, batched with bounded
+// concurrency and exponential backoff on rate limits and server errors.
+//
+// Models are identified by the id stored with every chunk:
+//   "text-embedding-3-small" etc.  OpenAI
+//   "local:<model>"                an OpenAI-compatible server, e.g. for on-prem embeddings
+//   "test:hash"                    a deterministic feature-hashing embedder for tests
+// Vectors of different models are never compared with each other.
+
+export type EmbeddingProviderKind = "openai" | "local" | "test";
+
+export interface EmbeddingModel {
+  // Identifier stored with chunks and documents
+  id: string;
+  provider: EmbeddingProviderKind;
+  // Model name sent to the provider
+  name: string;
+}
+
+export interface EmbedOptions {
+  model?: string;
+  // Inputs sent per embeddings request
+  batchSize?: number;
+  // Embeddings requests in flight at the same time
+  concurrency?: number;
+  maxRetries?: number;
+  // Called after every batch, successful or not, e.g. to persist results and report progress
+  onBatch?: (batch: EmbeddedBatch) => Promise<void>;
+}
+
+export interface EmbeddedBatch {
+  // Index of the first input of this batch in the original input array
+  offset: number;
+  embeddings: number[][] | null;
+  error: string | null;
+}
+
+export interface EmbedFailure {
+  index: number;
+  error: string;
+}
+
+type EmbeddingProvider = (inputs: string[], model: string, maxRetries: number) => Promise<number[][]>;
+
+const OPENAI_EMBEDDING_MODELS = ["text-embedding-3-small", "text-embedding-3-large", "text-embedding-ada-002"];
+
+// EMBEDDING_MODEL selects the model for new documents, e.g. "local" to keep
+// confidential documents on-prem
+export const DEFAULT_EMBEDDING_MODEL = Deno.env.get("EMBEDDING_MODEL") || "text-embedding-3-small";
+
+// Dimensions of the deterministic test embedder
+const TEST_EMBEDDING_DIMENSIONS = 256;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+// Honours Retry-After when the server sends it, otherwise backs off exponentially with jitter
+const backoffDelay = (attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!Number.isNaN(retryAfterSeconds)) return Math.min(retryAfterSeconds * 1000, MAX_DELAY_MS);
+
+  const exponential = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+};
+
+// POSTs to an OpenAI-compatible /embeddings endpoint, retrying rate limits and server errors
+const requestEmbeddings = async (
+  url: string,
+  apiKey: string | undefined,
+  inputs: string[],
+  model: string,
+  maxRetries: number,
+) => {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...(apiKey && { Authorization: `Bearer ${apiKey.trim()}` }),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, input: inputs }),
+      });
+    } catch (networkError) {
+      if (attempt >= maxRetries) throw networkError;
+      console.warn(`Embedding request failed (network), retrying (${attempt + 1}/${maxRetries})`);
+      await sleep(backoffDelay(attempt, null));
+      continue;
+    }
+
+    if (response.ok) {
+      const data = await response.json();
+      // One item per input, tagged with the input's index
+      return (data.data as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    }
+
+    const errorText = await response.text();
+    if (!isRetryable(response.status) || attempt >= maxRetries) {
+      throw new Error(`Embedding request failed with status ${response.status}: ${errorText}`);
+    }
+
+    console.warn(`Embedding request returned ${response.status}, retrying (${attempt + 1}/${maxRetries})`);
+    await sleep(backoffDelay(attempt, response.headers.get("retry-after")));
+  }
+};
+
+const openaiProvider: EmbeddingProvider = (inputs, model, maxRetries) => {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+
+  return requestEmbeddings("https://api.openai.com/v1/embeddings", apiKey, inputs, model, maxRetries);
+};
+
+// An OpenAI-compatible embeddings server such as Ollama, vLLM or text-embeddings-inference.
+// LOCAL_EMBEDDING_URL is its base URL, e.g. http://embeddings.internal:8080/v1
+const localProvider: EmbeddingProvider = (inputs, model, maxRetries) => {
+  const baseUrl = Deno.env.get("LOCAL_EMBEDDING_URL");
+  if (!baseUrl) throw new Error("LOCAL_EMBEDDING_URL is not configured");
+
+  const url = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+  return requestEmbeddings(url, Deno.env.get("LOCAL_EMBEDDING_API_KEY"), inputs, model, maxRetries);
+};
+
+// Feature hashing over lowercased words: texts sharing words get similar
+// vectors, so retrieval can be exercised without any embedding service.
+const hashEmbedding = (text: string) => {
+  const vector = new Array<number>(TEST_EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    vector[(hash >>> 1) % TEST_EMBEDDING_DIMENSIONS] += hash & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+};
+
+const testProvider: EmbeddingProvider = (inputs) => Promise.resolve(inputs.map(hashEmbedding));
+
+const providers: Record<EmbeddingProviderKind, EmbeddingProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+  test: testProvider,
+};
+
+// Maps a stored or requested model id to its provider. A bare "local" resolves
+// to the model configured in LOCAL_EMBEDDING_MODEL, so the stored id always
+// names the concrete model.
+export const resolveEmbeddingModel = (id: string): EmbeddingModel => {
+  if (OPENAI_EMBEDDING_MODELS.includes(id)) {
+    return { id, provider: "openai", name: id };
+  }
+
+  if (id === "local" || id.startsWith("local:")) {
+    const name = id === "local" ? Deno.env.get("LOCAL_EMBEDDING_MODEL") : id.slice("local:".length);
+    if (!name) throw new Error("LOCAL_EMBEDDING_MODEL is not configured");
+    return { id: `local:${name}`, provider: "local", name };
+  }
+
+  if (id === "test:hash") {
+    return { id, provider: "test", name: "hash" };
+  }
+
+  throw new Error(`Unsupported embedding model: ${id}`);
+};
+
+const embedWith = (model: EmbeddingModel, inputs: string[], maxRetries: number) =>
+  providers[model.provider](inputs, model.name, maxRetries);
+
+// Embeds a single search query, retrying on rate limits like batch ingestion does
+export const embedQuery = async (text: string, model = DEFAULT_EMBEDDING_MODEL) => {
+  const [embedding] = await embedWith(resolveEmbeddingModel(model), [text], 3);
+  return embedding;
+};
+
+// Embeds several search queries in a single request
+export const embedQueries = (texts: string[], model = DEFAULT_EMBEDDING_MODEL) =>
+  embedWith(resolveEmbeddingModel(model), texts, 3);
+
+// Embeds `inputs` in batches and returns the indices of inputs that could not be embedded
+export const embedInBatches = async (inputs: string[], options: EmbedOptions): Promise<EmbedFailure[]> => {
+  const {
+    model = DEFAULT_EMBEDDING_MODEL,
+    batchSize = 64,
+    concurrency = 3,
+    maxRetries = 5,
+    onBatch,
+  } = options;
+
+  const embeddingModel = resolveEmbeddingModel(model);
+
+  const offsets: number[] = [];
+  for (let offset = 0; offset < inputs.length; offset += batchSize) {
+    offsets.push(offset);
+  }
+
+  const failures: EmbedFailure[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < offsets.length) {
+      const offset = offsets[next++];
+      const batchInputs = inputs.slice(offset, offset + batchSize);
+      let batch: EmbeddedBatch;
+
+      try {
+        const embeddings = await embedWith(embeddingModel, batchInputs, maxRetries);
+        batch = { offset, embeddings, error: null };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Embedding batch at offset ${offset} failed:`, message);
+        batch = { offset, embeddings: null, error: message };
+      }
+
+      if (onBatch) {
+        try {
+          await onBatch(batch);
+        } catch (error) {
+          batch = { ...batch, error: error instanceof Error ? error.message : "Unknown error" };
+        }
+      }
+
+      if (batch.error) {
+        batchInputs.forEach((_, i) => failures.push({ index: offset + i, error: batch.error! }));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, offsets.length) }, worker));
+
+  return failures.sort((a, b) => a.index - b.index);
+};
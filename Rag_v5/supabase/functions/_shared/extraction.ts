@@ -0,0 +1,468 @@
+// Text extraction from uploaded files through a registry of extractors, one
+// per supported format. PDFs and slide decks keep their page (slide)
+// boundaries so the chunker can record page numbers. Tables in PDFs, DOCX,
+// HTML and spreadsheets are rendered as Markdown and reported to the chunker.
+// Images and PDF pages without a text layer, i.e. scans, are read with OCR.
+// Files of any other type are rejected instead of being embedded as raw bytes.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { type ChunkerInput, PAGE_SEPARATOR } from "./chunker.ts";
+import { drawingMlText, htmlToText, openDocumentText } from "./markup.ts";
+import { OCR_PROVIDER, type OcrImage, recognizeText } from "./ocr.ts";
+import { joinWithTables, layoutPdfPage, normalizeTable, type PdfTextItem, renderWithTables, type TextWithTables } from "./tables.ts";
+
+export interface ExtractedDocument extends ChunkerInput {
+  // OCR confidence of an image document as a whole
+  ocrConfidence?: number | null;
+  // OCR confidence by page number for PDF pages that were read with OCR
+  pageOcrConfidence?: Record<number, number | null>;
+}
+
+export type DocumentFormat =
+  | "text"
+  | "csv"
+  | "markdown"
+  | "html"
+  | "docx"
+  | "pdf"
+  | "pptx"
+  | "xlsx"
+  | "odt"
+  | "eml"
+  | "image";
+
+interface ExtractionSource {
+  // Lowercased file name or storage path
+  fileName: string;
+  mimeType: string | null;
+}
+
+type Extractor = (file: Blob, source: ExtractionSource) => Promise<ExtractedDocument>;
+
+interface FormatDefinition {
+  // Name used in error messages
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  extract: Extractor;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
+
+const extensionOf = (fileName: string) => fileName.split(".").pop() ?? "";
+
+// Pages recognized at the same time; OCR is by far the slowest extraction step
+const OCR_CONCURRENCY = 4;
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+
+// Encodes decoded pdf.js pixels as a binary PNM image, which Tesseract reads
+// without any further decoding on our side
+const toPnm = (image: { width: number; height: number; kind: number; data: Uint8ClampedArray }): OcrImage => {
+  const { width, height, kind, data } = image;
+  const pixels = width * height;
+  const channels = kind === GRAYSCALE_1BPP ? 1 : 3;
+  const header = new TextEncoder().encode(`${channels === 1 ? "P5" : "P6"}\n${width} ${height}\n255\n`);
+  const body = new Uint8Array(pixels * channels);
+
+  if (kind === GRAYSCALE_1BPP) {
+    // One bit per pixel, rows padded to full bytes, set bits are white
+    const rowBytes = Math.ceil(width / 8);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = data[y * rowBytes + (x >> 3)] & (128 >> (x & 7));
+        body[y * width + x] = bit ? 255 : 0;
+      }
+    }
+  } else if (kind === RGB_24BPP) {
+    body.set(data.subarray(0, pixels * 3));
+  } else {
+    // RGBA, the alpha channel is dropped
+    for (let i = 0; i < pixels; i++) {
+      body.set(data.subarray(i * 4, i * 4 + 3), i * 3);
+    }
+  }
+
+  const pnm = new Uint8Array(header.length + body.length);
+  pnm.set(header);
+  pnm.set(body, header.length);
+  return { data: pnm, mimeType: "image/x-portable-anymap" };
+};
+
+// Recognizes the images painted on each given page, which for a scan is the
+// scanned sheet. Returns the text and mean confidence per page number.
+const recognizePdfPages = async (pdf: Awaited<ReturnType<typeof getDocumentProxy>>, pageNumbers: number[]) => {
+  const { getResolvedPDFJS } = await import("https://esm.sh/unpdf@0.12.1");
+  const { OPS } = await getResolvedPDFJS();
+  const results = new Map<number, { text: string; confidence: number | null }>();
+
+  const recognizePage = async (pageNumber: number) => {
+    const page = await pdf.getPage(pageNumber);
+    const operatorList = await page.getOperatorList();
+    const texts: string[] = [];
+    const confidences: number[] = [];
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      if (operatorList.fnArray[i] !== OPS.paintImageXObject) continue;
+
+      const key: string = operatorList.argsArray[i][0];
+      const image = key.startsWith("g_") ? page.commonObjs.get(key) : page.objs.get(key);
+      if (!image?.data) continue;
+
+      const result = await recognizeText(toPnm(image));
+      if (result.text.trim()) texts.push(result.text.trim());
+      if (result.confidence !== null) confidences.push(result.confidence);
+    }
+
+    results.set(pageNumber, {
+      text: texts.join(PAGE_SEPARATOR),
+      confidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : null,
+    });
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < pageNumbers.length) {
+      await recognizePage(pageNumbers[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(OCR_CONCURRENCY, pageNumbers.length) }, worker));
+  return results;
+};
+
+const extractPlainText: Extractor = async (file) => ({ text: await file.text() });
+
+// YAML front matter holds metadata rather than content
+const extractMarkdown: Extractor = async (file) => ({
+  text: (await file.text()).replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, ""),
+});
+
+const extractHtml: Extractor = async (file) => htmlToText(await file.text());
+
+// Converted to HTML first, which keeps headings and tables that raw text extraction flattens
+const extractDocx: Extractor = async (file) => {
+  const arrayBuffer = await file.arrayBuffer();
+
+  // Use mammoth library for DOCX conversion
+  const { default: mammoth } = await import("https://esm.sh/mammoth@1.6.0");
+
+  const result = await mammoth.convertToHtml({ arrayBuffer });
+  return htmlToText(result.value);
+};
+
+const extractPdf: Extractor = async (file) => {
+  const arrayBuffer = await file.arrayBuffer();
+
+  const { getDocumentProxy } = await import("https://esm.sh/unpdf@0.12.1");
+
+  const pdf = await getDocumentProxy(new Uint8Array(arrayBuffer));
+  const pages = await Promise.all(
+    Array.from({ length: pdf.numPages }, async (_, i) => {
+      const page = await pdf.getPage(i + 1);
+      const content = await page.getTextContent();
+      return layoutPdfPage(content.items.filter((item): item is PdfTextItem => "str" in item));
+    }),
+  );
+  let pageOcrConfidence: Record<number, number | null> | undefined;
+
+  // Pages without a text layer are scanned and read with OCR instead
+  const scannedPages = pages.flatMap((page, i) => (page.text ? [] : [i + 1]));
+  if (scannedPages.length > 0 && OCR_PROVIDER !== "none") {
+    console.log(`Running OCR on ${scannedPages.length} of ${pages.length} PDF pages`);
+    const recognized = await recognizePdfPages(pdf, scannedPages);
+    pageOcrConfidence = {};
+
+    for (const [pageNumber, result] of recognized) {
+      pages[pageNumber - 1] = { text: result.text, tables: [] };
+      pageOcrConfidence[pageNumber] = result.confidence;
+    }
+  }
+
+  const { text, tables } = joinWithTables(pages, PAGE_SEPARATOR);
+  if (!text.trim()) {
+    throw new Error("No text could be extracted from PDF - the document may be image-based or encrypted");
+  }
+
+  return { text, pages: pages.map((page) => page.text), tables, pageOcrConfidence };
+};
+
+const extractImage: Extractor = async (file, { fileName, mimeType }) => {
+  const result = await recognizeText({
+    data: new Uint8Array(await file.arrayBuffer()),
+    mimeType: IMAGE_TYPES[extensionOf(fileName)] ?? mimeType ?? "application/octet-stream",
+  });
+
+  if (!result.text.trim()) {
+    throw new Error("No text could be recognized in the image");
+  }
+
+  return { text: result.text, ocrConfidence: result.confidence };
+};
+
+const loadZip = async (file: Blob) => {
+  const { default: JSZip } = await import("https://esm.sh/jszip@3.10.1");
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  return (path: string) => zip.file(path)?.async("string") ?? Promise.resolve(null);
+};
+
+interface Relationship {
+  type: string;
+  // Path of the target inside the package
+  path: string;
+}
+
+// Resolves an OOXML part's relationships, e.g. a slide's notes, by id
+const readRelationships = async (
+  readFile: (path: string) => Promise<string | null>,
+  partPath: string,
+): Promise<Map<string, Relationship>> => {
+  const directory = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const fileName = partPath.slice(directory.length);
+  const xml = await readFile(`${directory}_rels/${fileName}.rels`);
+  const relationships = new Map<string, Relationship>();
+
+  for (const [tag] of xml?.matchAll(/<Relationship\b[^>]*>/g) ?? []) {
+    const attribute = (name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? "";
+    const target = attribute("Target");
+
+    // Targets are relative to the part's directory unless absolute
+    const segments = (target.startsWith("/") ? target.slice(1) : directory + target).split("/");
+    const path: string[] = [];
+    for (const segment of segments) {
+      if (segment === "..") path.pop();
+      else if (segment !== ".") path.push(segment);
+    }
+
+    relationships.set(attribute("Id"), { type: attribute("Type"), path: path.join("/") });
+  }
+
+  return relationships;
+};
+
+// One page per slide in presentation order, followed by its speaker notes
+const extractPptx: Extractor = async (file) => {
+  const readFile = await loadZip(file);
+  const presentation = await readFile("ppt/presentation.xml");
+  if (!presentation) throw new Error("The file is not a PowerPoint presentation");
+
+  const presentationRelationships = await readRelationships(readFile, "ppt/presentation.xml");
+  const slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+    .map(([, id]) => presentationRelationships.get(id)?.path)
+    .filter((path): path is string => path !== undefined);
+
+  const pages: string[] = [];
+  for (const slidePath of slidePaths) {
+    const slideText = drawingMlText((await readFile(slidePath)) ?? "");
+
+    const slideRelationships = await readRelationships(readFile, slidePath);
+    const notesPath = [...slideRelationships.values()].find((relationship) =>
+      relationship.type.endsWith("/notesSlide"),
+    )?.path;
+    // Notes pages repeat the slide number, which is no part of the notes
+    const notes = notesPath
+      ? drawingMlText((await readFile(notesPath)) ?? "")
+          .split("\n")
+          .filter((line) => !/^\d+$/.test(line.trim()))
+          .join("\n")
+      : "";
+
+    pages.push([slideText, notes && `Speaker notes:\n${notes}`].filter(Boolean).join("\n\n"));
+  }
+
+  return { text: pages.join(PAGE_SEPARATOR), pages };
+};
+
+// One section per sheet holding the sheet as a table, its first row being the header
+const extractXlsx: Extractor = async (file) => {
+  const XLSX = await import("https://esm.sh/xlsx@0.18.5");
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array" });
+
+  const sheets = workbook.SheetNames.map((name: string) => {
+    const rows = (
+      XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, blankrows: false, defval: "", raw: false }) as unknown[][]
+    ).filter((row) => row.some((cell) => String(cell).trim()));
+    if (rows.length === 0) return null;
+
+    const [header, ...body] = rows.map((row) => row.map((cell) => String(cell)));
+    return renderWithTables([`# ${name}`, normalizeTable(header, body)]);
+  });
+
+  return joinWithTables(sheets.filter((sheet) => sheet !== null), "\n\n");
+};
+
+const extractOdt: Extractor = async (file) => {
+  const readFile = await loadZip(file);
+  const content = await readFile("content.xml");
+  if (!content) throw new Error("The file is not an OpenDocument text");
+
+  return { text: openDocumentText(content) };
+};
+
+interface MailAddress {
+  name: string;
+  address?: string;
+  group?: { name: string; address: string }[];
+}
+
+const formatAddresses = (addresses: MailAddress[] = []) =>
+  addresses
+    .flatMap((address) => address.group ?? [address])
+    .map(({ name, address }) => (name && address ? `${name} <${address}>` : name || address))
+    .join(", ");
+
+// The message with its headers and body, followed by the text of every
+// attachment in a supported format under a heading with its file name
+const extractEml: Extractor = async (file) => {
+  const { default: PostalMime } = await import("https://esm.sh/postal-mime@2.7.6");
+  const email = await PostalMime.parse(await file.arrayBuffer(), { attachmentEncoding: "arraybuffer" });
+
+  const headers = [
+    ["From", formatAddresses(email.from ? [email.from] : [])],
+    ["To", formatAddresses(email.to)],
+    ["Cc", formatAddresses(email.cc)],
+    ["Date", email.date ?? ""],
+  ]
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`);
+  const body = email.text?.trim() || (email.html ? await htmlToText(email.html) : "");
+  const parts: (string | TextWithTables)[] = [`# ${email.subject?.trim() || "E-Mail"}`, headers.join("\n"), body];
+
+  for (const attachment of email.attachments) {
+    // Inline parts are logos and signature images rather than content
+    if (attachment.disposition === "inline" || attachment.related) continue;
+
+    const fileName = attachment.filename ?? "attachment";
+    const source = { fileName: fileName.toLowerCase(), mimeType: attachment.mimeType };
+    const format = detectDocumentFormat(source.mimeType, source.fileName);
+    if (!format) {
+      console.log(`Skipping attachment ${fileName} of unsupported type ${attachment.mimeType}`);
+      continue;
+    }
+
+    try {
+      const extracted = await FORMATS[format].extract(new Blob([attachment.content]), source);
+      parts.push(`## ${fileName}`, { text: extracted.text, tables: extracted.tables ?? [] });
+    } catch (error) {
+      console.warn(`Skipping attachment ${fileName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return joinWithTables(
+    parts.filter((part) => (typeof part === "string" ? part : part.text)),
+    "\n\n",
+  );
+};
+
+const FORMATS: Record<DocumentFormat, FormatDefinition> = {
+  text: { label: "TXT", extensions: ["txt"], mimeTypes: ["text/plain"], extract: extractPlainText },
+  csv: { label: "CSV", extensions: ["csv"], mimeTypes: ["text/csv"], extract: extractPlainText },
+  markdown: {
+    label: "Markdown",
+    extensions: ["md", "markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    extract: extractMarkdown,
+  },
+  html: { label: "HTML", extensions: ["html", "htm"], mimeTypes: ["text/html"], extract: extractHtml },
+  docx: {
+    label: "DOCX",
+    extensions: ["docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extract: extractDocx,
+  },
+  pdf: { label: "PDF", extensions: ["pdf"], mimeTypes: ["application/pdf"], extract: extractPdf },
+  pptx: {
+    label: "PPTX",
+    extensions: ["pptx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    extract: extractPptx,
+  },
+  xlsx: {
+    label: "XLSX",
+    extensions: ["xlsx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    extract: extractXlsx,
+  },
+  odt: { label: "ODT", extensions: ["odt"], mimeTypes: ["application/vnd.oasis.opendocument.text"], extract: extractOdt },
+  eml: { label: "EML", extensions: ["eml"], mimeTypes: ["message/rfc822"], extract: extractEml },
+  image: {
+    label: "image",
+    extensions: Object.keys(IMAGE_TYPES),
+    mimeTypes: Object.values(IMAGE_TYPES),
+    extract: extractImage,
+  },
+};
+
+// The extension decides where it is known, as browsers report some types
+// inconsistently (CSV as an Excel type, Markdown as plain text); the MIME
+// type covers files without a usable extension
+export const detectDocumentFormat = (mimeType: string | null, fileName: string): DocumentFormat | null => {
+  const formats = Object.entries(FORMATS) as [DocumentFormat, FormatDefinition][];
+  const extension = extensionOf(fileName);
+
+  return (
+    formats.find(([, format]) => format.extensions.includes(extension))?.[0] ??
+    formats.find(([, format]) => mimeType !== null && format.mimeTypes.includes(mimeType))?.[0] ??
+    null
+  );
+};
+
+// File extension for storing a document of the given format, e.g. a fetched web page
+export const formatExtension = (format: DocumentFormat) => FORMATS[format].extensions[0];
+
+// Downloads the document from storage and extracts its text with the extractor for its format
+export const extractDocumentText = async (
+  supabase: SupabaseClient,
+  document: { file_path: string; mime_type: string | null },
+): Promise<ExtractedDocument> => {
+  const source = { fileName: document.file_path.toLowerCase(), mimeType: document.mime_type };
+  const format = detectDocumentFormat(source.mimeType, source.fileName);
+
+  console.log("Processing file type:", source.mimeType, "File name:", source.fileName, "Format:", format);
+
+  if (!format) {
+    throw new Error(`Unsupported file type: ${source.mimeType || extensionOf(source.fileName)}`);
+  }
+
+  // Download file from storage
+  console.log("Downloading file from path:", document.file_path);
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(document.file_path);
+
+  if (downloadError) {
+    console.error("Storage download error:", downloadError);
+    throw new Error(`Failed to download document: ${downloadError.message}`);
+  }
+
+  if (!fileData) {
+    throw new Error("File data is empty");
+  }
+
+  console.log("Downloaded file size:", fileData.size, "bytes");
+
+  const { label, extract } = FORMATS[format];
+  let extracted: ExtractedDocument;
+  try {
+    extracted = await extract(fileData, source);
+  } catch (error) {
+    console.error(`${label} parsing error:`, error);
+    throw new Error(`Failed to parse ${label}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  console.log(`Extracted ${extracted.text.length} characters from ${label}`);
+
+  if (!extracted.text.trim()) {
+    throw new Error(`No text could be extracted from ${label}`);
+  }
+
+  return extracted;
+};
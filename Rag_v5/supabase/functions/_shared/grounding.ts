@@ -0,0 +1,45 @@
+// How rag-chat answers when retrieval is on: strictly from documents, or
+// with general knowledge as a labelled or silent fallback.
+import type { Language } from "./language.ts";
+
+export type GroundingMode = "strict" | "disclaimer" | "fallback";
+
+// The path a single answer took, returned to the client and stored with the message
+export type Grounding = "documents" | "refused" | "disclaimer" | "general";
+
+const REFUSAL_MESSAGES: Record<Language, string> = {
+  de: "Die angefragte Information ist in den bereitgestellten Dokumenten nicht enthalten.",
+  en: "The requested information is not contained in the provided documents.",
+};
+
+const DISCLAIMER_MESSAGES: Record<Language, string> = {
+  de: "Hinweis: Die bereitgestellten Dokumente enthalten hierzu keine Informationen. Die folgende Antwort basiert auf allgemeinem Wissen.",
+  en: "Note: The provided documents do not cover this. The following answer is based on general knowledge.",
+};
+
+// An agent's own refusal text takes precedence over the localized default
+export const refusalMessage = (customMessage: string | null, language: Language) =>
+  customMessage?.trim() || REFUSAL_MESSAGES[language];
+
+export const disclaimerMessage = (language: Language) => DISCLAIMER_MESSAGES[language];
+
+// Instruction appended after the numbered sources when chunks were found
+export const documentInstructions = (mode: GroundingMode, refusal: string, language: Language) => {
+  if (language === "en") {
+    const citing = "Support every statement with the number of the source used in square brackets, e.g. [1].";
+    return mode === "strict"
+      ? `IMPORTANT: Answer the question based exclusively on the provided document information. ${citing} If the information is not contained in the documents, reply with: "${refusal}"`
+      : `IMPORTANT: Base your answer primarily on the provided document information. ${citing} If the documents do not cover the question, you may answer from general knowledge, but state clearly which parts are not backed by the documents.`;
+  }
+
+  const citing = "Belege jede Aussage mit der Nummer der verwendeten Quelle in eckigen Klammern, z. B. [1].";
+  return mode === "strict"
+    ? `WICHTIG: Beantworte die Frage ausschließlich basierend auf den bereitgestellten Dokumenteninformationen. ${citing} Wenn die Information nicht in den Dokumenten enthalten ist, antworte mit: "${refusal}"`
+    : `WICHTIG: Stütze deine Antwort vorrangig auf die bereitgestellten Dokumenteninformationen. ${citing} Wenn die Dokumente die Frage nicht abdecken, darfst du mit allgemeinem Wissen antworten, kennzeichne aber deutlich, welche Teile nicht durch die Dokumente belegt sind.`;
+};
+
+// Instruction used when no chunk passed the threshold and the mode allows general knowledge
+export const generalKnowledgeInstructions = (language: Language) =>
+  language === "en"
+    ? "No relevant passages were found in the documents. Answer based on your general knowledge."
+    : "In den Dokumenten wurden keine relevanten Passagen gefunden. Antworte auf Basis deines allgemeinen Wissens.";
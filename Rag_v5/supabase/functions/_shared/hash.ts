@@ -0,0 +1,8 @@
+// Content hashes used to tell whether a document or chunk changed. Strings are
+// hashed as UTF-8, matching encode(sha256(convert_to(content, 'UTF8')), 'hex')
+// in SQL.
+export const sha256Hex = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
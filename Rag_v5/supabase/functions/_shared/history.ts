@@ -0,0 +1,137 @@
+// Token-budgeted conversation history for rag-chat: the most recent messages
+// verbatim, plus a rolling summary of everything older. The summary is stored
+// on the conversation and extended incrementally as messages leave the window.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { estimateTokens } from "./chunker.ts";
+
+export interface HistoryMessage {
+  role: string;
+  content: string;
+}
+
+export interface HistoryOptions {
+  // Most recent messages to include verbatim
+  maxMessages: number;
+  // Token budget for the verbatim messages; the newest message is always kept
+  maxTokens: number;
+  apiKey: string;
+  model?: string;
+}
+
+interface StoredMessage {
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+const SUMMARY_MODEL = "gpt-4o-mini";
+const SUMMARY_MAX_TOKENS = 500;
+// Bounds the unsummarized backlog loaded per turn
+const MAX_UNSUMMARIZED_MESSAGES = 200;
+
+const SUMMARY_INSTRUCTIONS =
+  "You maintain a running summary of a conversation between a user and an assistant. " +
+  "Merge the new messages into the existing summary. Keep the user's goals, facts they provided, " +
+  "decisions, open questions and identifiers such as names, numbers and product codes. " +
+  "Write in the language of the conversation and return only the updated summary.";
+
+const summarize = async (previousSummary: string | null, messages: StoredMessage[], apiKey: string, model: string) => {
+  const transcript = messages
+    .map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+    .join("\n\n");
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey.trim()}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      max_tokens: SUMMARY_MAX_TOKENS,
+      messages: [
+        { role: "system", content: SUMMARY_INSTRUCTIONS },
+        { role: "user", content: `Existing summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}` },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Summary request failed with status ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  return (data.choices?.[0]?.message?.content ?? "").trim() as string;
+};
+
+// Returns the history to send before the current user message, oldest first.
+// When a summary exists it is prepended as a system message.
+export const buildConversationHistory = async (
+  supabase: SupabaseClient,
+  conversationId: string,
+  { maxMessages, maxTokens, apiKey, model = SUMMARY_MODEL }: HistoryOptions,
+): Promise<HistoryMessage[]> => {
+  if (maxMessages <= 0) return [];
+
+  const { data: conversation } = await supabase
+    .from("conversations")
+    .select("history_summary, history_summary_until")
+    .eq("id", conversationId)
+    .single();
+
+  let summary: string | null = conversation?.history_summary ?? null;
+
+  let query = supabase
+    .from("messages")
+    .select("role, content, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_UNSUMMARIZED_MESSAGES);
+  if (conversation?.history_summary_until) {
+    query = query.gt("created_at", conversation.history_summary_until);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load conversation history: ${error.message}`);
+  const newestFirst = (data || []) as StoredMessage[];
+
+  const recent: StoredMessage[] = [];
+  let used = 0;
+  for (const msg of newestFirst) {
+    const tokens = estimateTokens(msg.content);
+    if (recent.length >= maxMessages || (recent.length > 0 && used + tokens > maxTokens)) break;
+    recent.push(msg);
+    used += tokens;
+  }
+
+  // Messages that fell out of the window are folded into the summary. If that
+  // fails they are retried on the next turn, as the summary cursor stays put.
+  const overflow = newestFirst.slice(recent.length).reverse();
+  if (overflow.length > 0) {
+    try {
+      summary = await summarize(summary, overflow, apiKey, model);
+
+      const { error: updateError } = await supabase
+        .from("conversations")
+        .update({
+          history_summary: summary,
+          history_summary_until: overflow[overflow.length - 1].created_at,
+        })
+        .eq("id", conversationId);
+
+      if (updateError) console.error("Failed to store conversation summary:", updateError);
+    } catch (summaryError) {
+      console.error("Failed to refresh conversation summary:", summaryError);
+    }
+  }
+
+  const history: HistoryMessage[] = recent.reverse().map(({ role, content }) => ({ role, content }));
+  if (summary) {
+    history.unshift({ role: "system", content: `Summary of the earlier conversation:\n${summary}` });
+  }
+
+  return history;
+};
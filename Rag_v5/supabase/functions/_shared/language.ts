@@ -0,0 +1,60 @@
+// The user's language, stored on their profile, selects which prompt
+// templates, refusals and disclaimers the edge functions use. Documents and
+// questions get their language detected from the text itself.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export type Language = "de" | "en";
+
+export const DEFAULT_LANGUAGE: Language = "de";
+
+// Maps a stored value or language tag such as "en-US" to a supported language
+export const resolveLanguage = (value: string | null | undefined): Language =>
+  value?.toLowerCase().startsWith("en") ? "en" : DEFAULT_LANGUAGE;
+
+export const getUserLanguage = async (supabase: SupabaseClient, userId: string): Promise<Language> => {
+  const { data, error } = await supabase.from("profiles").select("language").eq("id", userId).maybeSingle();
+
+  if (error) {
+    console.error("Error fetching language preference:", error);
+  }
+  return resolveLanguage(data?.language);
+};
+
+// Function words that are frequent in one language and rare in the other.
+// Words shared by both ("in", "an", "was", "will", "die") are left out.
+const STOPWORDS: Record<Language, Set<string>> = {
+  de: new Set([
+    "der", "das", "und", "ist", "nicht", "ein", "eine", "einen", "zu", "mit", "den", "von", "auf", "für",
+    "sich", "des", "dem", "im", "auch", "es", "als", "wie", "bei", "oder", "wird", "werden", "sind", "aus",
+    "nach", "noch", "wenn", "dass", "kann", "nur", "über", "wir", "ich", "sie", "zum", "zur", "vom", "durch",
+    "welche", "welcher", "wo", "warum", "gibt", "mir", "uns",
+  ]),
+  en: new Set([
+    "the", "and", "is", "are", "of", "to", "that", "it", "for", "with", "as", "on", "be", "this", "by",
+    "not", "or", "from", "have", "has", "at", "which", "what", "how", "why", "where", "when", "can", "there",
+    "their", "they", "we", "you", "i", "my", "our", "does", "do", "been", "were", "would", "should", "about",
+    "into", "than", "these", "those", "its",
+  ]),
+};
+
+// A single unambiguous function word is enough for short questions
+const MIN_STOPWORD_HITS = 1;
+// Share of all stopword hits the leading language needs
+const MIN_SHARE = 0.6;
+
+// Detects German or English from stopword frequencies. Returns null for text
+// too short or too mixed to tell, e.g. tables of numbers or one-word queries.
+export const detectLanguage = (text: string): Language | null => {
+  const counts: Record<Language, number> = { de: 0, en: 0 };
+
+  for (const word of text.toLowerCase().match(/[a-zäöüß]+/g) ?? []) {
+    if (STOPWORDS.de.has(word)) counts.de++;
+    else if (STOPWORDS.en.has(word)) counts.en++;
+  }
+
+  const total = counts.de + counts.en;
+  if (total < MIN_STOPWORD_HITS) return null;
+  if (counts.de / total >= MIN_SHARE) return "de";
+  if (counts.en / total >= MIN_SHARE) return "en";
+  return null;
+};
@@ -0,0 +1,174 @@
+// Plain text from markup: HTML pages and the XML inside office documents.
+// Headings are kept as Markdown headings so the chunker records heading paths.
+import { normalizeTable, renderWithTables, type Table, type TextWithTables } from "./tables.ts";
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIGCAPTION", "FIGURE", "LI", "MAIN",
+  "OL", "P", "PRE", "SECTION", "TABLE", "TBODY", "TD", "TFOOT", "TH", "THEAD", "TR", "UL",
+]);
+
+// Navigation, chrome and scripts that carry no content of the page itself
+const BOILERPLATE_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form", "button",
+  "nav", "header", "footer", "aside",
+  "[role=navigation]", "[role=banner]", "[role=contentinfo]", "[aria-hidden=true]",
+].join(", ");
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// The subset of the DOM that is walked, shared by deno-dom's node types
+interface MarkupNode {
+  nodeType: number;
+  nodeName: string;
+  textContent: string;
+  childNodes: ArrayLike<MarkupNode>;
+}
+
+// Tidies the walked text: no trailing spaces and at most one blank line in a row
+const normalizeLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// Marks where a data table goes until the text around it is normalized
+const TABLE_PLACEHOLDER = /\uE000(\d+)\uE000/;
+
+const cellText = (node: MarkupNode) => node.textContent.replace(/\s+/g, " ").trim();
+
+// Cell texts per row, without descending into nested tables
+const tableRows = (node: MarkupNode, rows: string[][] = []) => {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== ELEMENT_NODE) continue;
+    const tag = child.nodeName.toUpperCase();
+
+    if (tag === "TR") {
+      const cells = Array.from(child.childNodes).filter(
+        (cell) => cell.nodeType === ELEMENT_NODE && /^T[DH]$/i.test(cell.nodeName),
+      );
+      rows.push(cells.map(cellText));
+    } else if (tag !== "TABLE") {
+      tableRows(child, rows);
+    }
+  }
+  return rows;
+};
+
+const walk = (node: MarkupNode, out: string[], tables: Table[]) => {
+  if (node.nodeType === TEXT_NODE) {
+    out.push(node.textContent.replace(/\s+/g, " "));
+    return;
+  }
+  if (node.nodeType !== ELEMENT_NODE) return;
+
+  const tag = node.nodeName.toUpperCase();
+  const heading = tag.match(/^H([1-6])$/);
+
+  if (heading) {
+    out.push(`\n\n${"#".repeat(Number(heading[1]))} ${node.textContent.replace(/\s+/g, " ").trim()}\n\n`);
+    return;
+  }
+  if (tag === "BR") {
+    out.push("\n");
+    return;
+  }
+  if (tag === "PRE") {
+    out.push(`\n\n${node.textContent}\n\n`);
+    return;
+  }
+  if (tag === "TABLE") {
+    // Data tables have a header row and at least one row of two or more
+    // columns; single-column tables are usually layout and read as text
+    const [header, ...rows] = tableRows(node);
+    if (header && rows.length > 0 && Math.max(header.length, ...rows.map((row) => row.length)) >= 2) {
+      tables.push(normalizeTable(header, rows));
+      out.push(`\n\n\uE000${tables.length - 1}\uE000\n\n`);
+      return;
+    }
+  }
+
+  const block = BLOCK_TAGS.has(tag);
+  if (block) out.push("\n\n");
+  if (tag === "LI") out.push("- ");
+
+  for (const child of Array.from(node.childNodes)) {
+    walk(child, out, tables);
+  }
+
+  if (block) out.push("\n\n");
+};
+
+// Extracts the readable content of an HTML page: boilerplate is removed, the
+// main content area is preferred over the whole body and data tables are
+// rendered as Markdown tables
+export const htmlToText = async (html: string): Promise<TextWithTables> => {
+  const { DOMParser } = await import("https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts");
+  const dom = new DOMParser().parseFromString(html, "text/html");
+  if (!dom) throw new Error("HTML could not be parsed");
+
+  for (const element of Array.from(dom.querySelectorAll(BOILERPLATE_SELECTOR))) {
+    (element as unknown as { remove: () => void }).remove();
+  }
+
+  const root = dom.querySelector("main, article, [role=main]") ?? dom.body;
+  if (!root) return { text: "", tables: [] };
+
+  const out: string[] = [];
+  const title = dom.querySelector("title")?.textContent.trim();
+  // The title names the page when its content has no top-level heading
+  if (title && !root.querySelector("h1")) out.push(`# ${title}\n\n`);
+
+  const tables: Table[] = [];
+  walk(root as unknown as MarkupNode, out, tables);
+
+  const blocks = normalizeLines(out.join(""))
+    .split(TABLE_PLACEHOLDER)
+    .map((block, i) => (i % 2 === 1 ? tables[Number(block)] : block.trim()))
+    .filter((block) => block !== "");
+  return renderWithTables(blocks);
+};
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Text of DrawingML paragraphs (<a:p> with <a:t> runs), as used by PowerPoint
+export const drawingMlText = (xml: string) =>
+  (xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) ?? [])
+    .map((paragraph) =>
+      decodeXmlEntities(
+        (paragraph.match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>|<a:br\b[^>]*\/>/g) ?? [])
+          .map((run) => (run.startsWith("<a:br") ? "\n" : run.replace(/<[^>]+>/g, "")))
+          .join(""),
+      ).trim(),
+    )
+    .filter((paragraph) => paragraph.length > 0)
+    .join("\n");
+
+// Text of an OpenDocument content.xml body, with outline headings as Markdown headings
+export const openDocumentText = (xml: string) => {
+  const body = xml.match(/<office:text[\s>][\s\S]*<\/office:text>/)?.[0] ?? xml;
+
+  const text = body
+    // Annotations and tracked deletions are not part of the text
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, "")
+    .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, "")
+    .replace(/<text:h\b[^>]*?text:outline-level="(\d+)"[^>]*>/g, (_, level) => `\n\n${"#".repeat(Math.min(Number(level), 6))} `)
+    .replace(/<\/text:h>/g, "\n\n")
+    .replace(/<\/text:p>/g, "\n")
+    .replace(/<text:tab\/>/g, "\t")
+    .replace(/<text:line-break\/>/g, "\n")
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\/>/g, (_, count) => " ".repeat(Number(count ?? 1)))
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeLines(decodeXmlEntities(text));
+};
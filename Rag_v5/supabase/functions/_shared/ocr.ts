@@ -0,0 +1,107 @@
+// Optical character recognition for scanned documents behind pluggable providers.
+//
+// OCR_PROVIDER selects the provider:
+//   "tesseract"  a Tesseract HTTP service such as hertzg/tesseract-server (default);
+//                OCR_URL is its base URL, e.g. http://tesseract.internal:8884
+//   "none"       disables OCR, so documents without a text layer fail as before
+
+export type OcrProviderKind = "tesseract" | "none";
+
+export interface OcrImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence between 0 and 1; null when the provider reports none
+  confidence: number | null;
+}
+
+type OcrProvider = (image: OcrImage) => Promise<OcrResult>;
+
+export const OCR_PROVIDER = (Deno.env.get("OCR_PROVIDER") || "tesseract") as OcrProviderKind;
+
+// Tesseract language models, most documents are German or English
+const OCR_LANGUAGES = (Deno.env.get("OCR_LANGUAGES") || "deu,eng").split(",").map((language) => language.trim());
+
+// Scanned pages are large and slow to recognize
+const OCR_TIMEOUT_MS = 60000;
+
+// Rebuilds the text from Tesseract's TSV output, one line per text line and a
+// blank line between paragraphs, and averages the confidence of its words
+const parseTesseractTsv = (tsv: string): OcrResult => {
+  const paragraphs = new Map<string, Map<string, string[]>>();
+  let confidenceSum = 0;
+  let wordCount = 0;
+
+  // Columns: level page_num block_num par_num line_num word_num left top width height conf text
+  for (const row of tsv.split("\n").slice(1)) {
+    const columns = row.split("\t");
+    if (columns.length < 12 || columns[0] !== "5") continue;
+
+    const word = columns.slice(11).join("\t").trim();
+    const confidence = Number(columns[10]);
+    if (!word || confidence < 0) continue;
+
+    const paragraphKey = columns.slice(1, 4).join(".");
+    const lineKey = columns[4];
+    const lines = paragraphs.get(paragraphKey) ?? new Map<string, string[]>();
+    lines.set(lineKey, [...(lines.get(lineKey) ?? []), word]);
+    paragraphs.set(paragraphKey, lines);
+
+    confidenceSum += confidence;
+    wordCount++;
+  }
+
+  const text = [...paragraphs.values()]
+    .map((lines) => [...lines.values()].map((words) => words.join(" ")).join("\n"))
+    .join("\n\n");
+
+  return { text, confidence: wordCount > 0 ? confidenceSum / wordCount / 100 : null };
+};
+
+const tesseractProvider: OcrProvider = async (image) => {
+  const baseUrl = Deno.env.get("OCR_URL");
+  if (!baseUrl) throw new Error("OCR_URL is not configured");
+
+  const form = new FormData();
+  form.append(
+    "options",
+    JSON.stringify({
+      languages: OCR_LANGUAGES,
+      // TSV instead of plain text, for the word confidences
+      configParams: { tessedit_create_tsv: "1", tessedit_create_txt: "0" },
+    }),
+  );
+  form.append("file", new Blob([image.data], { type: image.mimeType }));
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/tesseract`, {
+    method: "POST",
+    body: form,
+    signal: AbortSignal.timeout(OCR_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OCR request failed with status ${response.status}: ${errorText}`);
+  }
+
+  const { data } = await response.json();
+  return parseTesseractTsv(data.stdout ?? "");
+};
+
+const disabledProvider: OcrProvider = () => Promise.reject(new Error("OCR is disabled"));
+
+const providers: Record<OcrProviderKind, OcrProvider> = {
+  tesseract: tesseractProvider,
+  none: disabledProvider,
+};
+
+// Recognizes the text in an image with the configured provider
+export const recognizeText = (image: OcrImage): Promise<OcrResult> => {
+  const provider = providers[OCR_PROVIDER];
+  if (!provider) throw new Error(`Unsupported OCR provider: ${OCR_PROVIDER}`);
+
+  return provider(image);
+};
@@ -0,0 +1,407 @@
+// Document processing as resumable jobs. A job is worked on in slices: each
+// slice extracts and chunks the document, embeds the chunks after the job's
+// checkpoint in rounds and stages every round with a single insert, so a
+// slice cut short by a timeout or crash resumes from the last stored round.
+// Once all chunks are staged, commit_document_chunks swaps them in. Chunks
+// whose content is unchanged reuse the embedding of the live chunk, so a
+// re-synced document only embeds what changed.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  chunkDocument,
+  DEFAULT_CHUNKER_OPTIONS,
+  isChunkerMode,
+  selectChunkerMode,
+  type ChunkerMode,
+  type ChunkerOptions,
+} from "./chunker.ts";
+import { DEFAULT_EMBEDDING_MODEL, embedInBatches, resolveEmbeddingModel } from "./embeddings.ts";
+import { extractDocumentText } from "./extraction.ts";
+import { sha256Hex } from "./hash.ts";
+import { detectLanguage, type Language } from "./language.ts";
+
+// Per-job overrides; chunk sizes are in tokens
+export interface ProcessingOptions {
+  chunker?: ChunkerMode;
+  chunk_size?: number;
+  chunk_overlap?: number;
+  embedding_model?: string;
+  // Re-embeds the current chunks with another model instead of re-extracting the file
+  reembed?: boolean;
+}
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  options: ProcessingOptions;
+  attempts: number;
+  max_attempts: number;
+  // Position of the last chunk staged by an earlier slice; null before the first round
+  last_chunk_index: number | null;
+  // Chunks prepared by the job's first slice; null until then
+  chunk_plan: PreparedChunk[] | null;
+}
+
+interface DocumentRow {
+  id: string;
+  file_path: string;
+  mime_type: string | null;
+  embedding_model: string | null;
+}
+
+// A chunk ready to be embedded, with the metadata it is stored with
+interface PreparedChunk {
+  content: string;
+  contentHash: string;
+  language: Language | null;
+  metadata: { chunk_index?: number } & Record<string, unknown>;
+}
+
+export interface FailedChunk {
+  chunk_index: number;
+  error: string;
+}
+
+export type JobOutcome =
+  | { state: "completed" }
+  // The slice ran out of time; the job is queued again at its checkpoint.
+  // `staged` tells whether the slice stored any chunks, i.e. made progress.
+  | { state: "released"; staged: boolean }
+  // `retryable` is false for failures another attempt cannot fix, e.g. an unknown embedding model
+  | { state: "failed"; error: string; failedChunks: FailedChunk[]; retryable?: boolean };
+
+export interface SliceOptions {
+  workerId: string;
+  // Epoch milliseconds after which no new round is started
+  deadline: number;
+  leaseSeconds: number;
+}
+
+// Largest chunk size accepted in job options, in tokens, well below the
+// input limit of the embedding models
+const MAX_CHUNK_SIZE = 2000;
+
+// Checks job options sent by a client and throws with a message for the
+// caller on invalid values, so they are rejected before any job is queued
+export const parseProcessingOptions = (input: Record<string, unknown>): ProcessingOptions => {
+  const options: ProcessingOptions = {};
+
+  if (input.chunker != null) {
+    if (!isChunkerMode(input.chunker)) throw new Error(`Unknown chunker: ${input.chunker}`);
+    options.chunker = input.chunker;
+  }
+
+  if (input.chunk_size != null) {
+    const chunkSize = input.chunk_size;
+    if (typeof chunkSize !== "number" || !Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error(`chunk_size must be an integer between 1 and ${MAX_CHUNK_SIZE}`);
+    }
+    options.chunk_size = chunkSize;
+  }
+
+  if (input.chunk_overlap != null) {
+    const chunkOverlap = input.chunk_overlap;
+    if (typeof chunkOverlap !== "number" || !Number.isInteger(chunkOverlap) || chunkOverlap < 0) {
+      throw new Error("chunk_overlap must be a non-negative integer");
+    }
+    options.chunk_overlap = chunkOverlap;
+  }
+
+  // The defaults count too, e.g. a small chunk_size with the default overlap
+  if (
+    (options.chunk_overlap ?? DEFAULT_CHUNKER_OPTIONS.chunkOverlap) >=
+    (options.chunk_size ?? DEFAULT_CHUNKER_OPTIONS.chunkSize)
+  ) {
+    throw new Error("chunk_overlap must be smaller than chunk_size");
+  }
+
+  if (input.embedding_model != null) {
+    if (typeof input.embedding_model !== "string") throw new Error("embedding_model must be a string");
+    // Throws for unknown or unconfigured models
+    resolveEmbeddingModel(input.embedding_model);
+    options.embedding_model = input.embedding_model;
+  }
+
+  if (input.reembed != null) {
+    if (typeof input.reembed !== "boolean") throw new Error("reembed must be a boolean");
+    options.reembed = input.reembed;
+  }
+
+  return options;
+};
+
+// Chunks embedded and stored per round, i.e. per checkpoint
+const ROUND_SIZE = 192;
+// Hashes per lookup of live chunk embeddings, keeping the request URL short
+const HASH_LOOKUP_SIZE = 50;
+
+// Removes the staged chunks of an unfinished run; the live chunks stay untouched
+export const discardStagedChunks = async (supabase: SupabaseClient, documentId: string) => {
+  const { error } = await supabase
+    .from("document_chunks")
+    .delete()
+    .eq("document_id", documentId)
+    .eq("staged", true);
+
+  if (error) {
+    console.error("Failed to discard staged chunks:", error);
+  }
+};
+
+// Produces the document's chunks in a stable order, so every slice of a job
+// sees the same chunk at the same position
+const prepareChunks = async (
+  supabase: SupabaseClient,
+  document: DocumentRow,
+  options: ProcessingOptions,
+): Promise<PreparedChunk[]> => {
+  if (options.reembed) {
+    // Document order, so the plan and its checkpoints follow the chunker's
+    // chunk_index; the id only breaks ties between chunks without one
+    const { data: liveChunks, error: chunksError } = await supabase
+      .from("document_chunks")
+      .select("content, content_hash, metadata, language")
+      .eq("document_id", document.id)
+      .eq("staged", false)
+      .order("metadata->chunk_index", { ascending: true, nullsFirst: false })
+      .order("id");
+
+    if (chunksError) {
+      throw new Error(`Failed to load chunks: ${chunksError.message}`);
+    }
+    if (!liveChunks || liveChunks.length === 0) {
+      throw new Error("Document has no chunks to re-embed");
+    }
+
+    return Promise.all(
+      liveChunks.map(async (chunk) => ({
+        content: chunk.content,
+        contentHash: chunk.content_hash ?? (await sha256Hex(chunk.content)),
+        language: chunk.language,
+        metadata: chunk.metadata ?? {},
+      })),
+    );
+  }
+
+  const chunkerOptions: ChunkerOptions = {
+    chunkSize: options.chunk_size ?? DEFAULT_CHUNKER_OPTIONS.chunkSize,
+    chunkOverlap: options.chunk_overlap ?? DEFAULT_CHUNKER_OPTIONS.chunkOverlap,
+  };
+
+  const input = await extractDocumentText(supabase, document);
+
+  // Split text into structure-aware chunks
+  const chunkerMode = options.chunker ?? selectChunkerMode(document.mime_type, document.file_path.toLowerCase());
+  const chunks = chunkDocument(chunkerMode, input, chunkerOptions);
+  console.log(`Created ${chunks.length} chunks using the ${chunkerMode} chunker`);
+
+  // Detect languages so retrieval can prefer chunks in the question's language.
+  // Chunks too short to tell inherit the document's language.
+  const documentLanguage = detectLanguage(input.text);
+  console.log(`Detected document language: ${documentLanguage ?? "unknown"}`);
+
+  await supabase
+    .from("documents")
+    .update({ language: documentLanguage })
+    .eq("id", document.id);
+
+  return Promise.all(
+    chunks.map(async (chunk) => {
+      // Set only for text read with OCR, so answers from shaky scans can be told apart
+      const ocrConfidence =
+        chunk.metadata.page_number !== undefined
+          ? input.pageOcrConfidence?.[chunk.metadata.page_number]
+          : input.ocrConfidence;
+
+      return {
+        content: chunk.content,
+        contentHash: await sha256Hex(chunk.content),
+        language: detectLanguage(chunk.content) ?? documentLanguage,
+        metadata: {
+          ...chunk.metadata,
+          ...(ocrConfidence !== undefined && { ocr_confidence: ocrConfidence }),
+          chunker: chunkerMode,
+          chunk_size: chunkerOptions.chunkSize,
+          chunk_overlap: chunkerOptions.chunkOverlap,
+        },
+      };
+    }),
+  );
+};
+
+// Embeddings of the document's live chunks with one of the given content
+// hashes. Vectors come back in pgvector's text form and are stored as they are.
+const loadLiveEmbeddings = async (
+  supabase: SupabaseClient,
+  documentId: string,
+  embeddingModel: string,
+  hashes: string[],
+) => {
+  const embeddings = new Map<string, string>();
+  const uniqueHashes = [...new Set(hashes)];
+
+  for (let i = 0; i < uniqueHashes.length; i += HASH_LOOKUP_SIZE) {
+    const { data, error } = await supabase
+      .from("document_chunks")
+      .select("content_hash, embedding")
+      .eq("document_id", documentId)
+      .eq("staged", false)
+      .eq("embedding_model", embeddingModel)
+      .in("content_hash", uniqueHashes.slice(i, i + HASH_LOOKUP_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to load chunk embeddings: ${error.message}`);
+    }
+
+    for (const chunk of data ?? []) {
+      if (chunk.embedding) embeddings.set(chunk.content_hash, chunk.embedding);
+    }
+  }
+
+  return embeddings;
+};
+
+// Works on a claimed job until it is done, fails or the slice's deadline passes
+export const runProcessingSlice = async (
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  { workerId, deadline, leaseSeconds }: SliceOptions,
+): Promise<JobOutcome> => {
+  const { data: document, error: docError } = await supabase
+    .from("documents")
+    .select("id, file_path, mime_type, embedding_model")
+    .eq("id", job.document_id)
+    .single();
+
+  if (docError || !document) {
+    throw new Error("Document not found");
+  }
+
+  // The requested model, else the document's current one, so re-processing
+  // never silently moves a document to another embedding provider. Uploads
+  // store the model without server-side validation, so an unknown one fails
+  // the job right away instead of after every retry.
+  let embeddingModel: string;
+  try {
+    embeddingModel = resolveEmbeddingModel(
+      job.options.embedding_model ?? document.embedding_model ?? DEFAULT_EMBEDDING_MODEL,
+    ).id;
+  } catch (error) {
+    return {
+      state: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      failedChunks: [],
+      retryable: false,
+    };
+  }
+
+  // Leftovers of an earlier run that never reached its first checkpoint
+  if (job.last_chunk_index === null) {
+    await discardStagedChunks(supabase, document.id);
+  }
+
+  // Extraction and OCR run once per job; later slices resume from the stored plan
+  let chunks = job.chunk_plan;
+  if (!chunks) {
+    chunks = await prepareChunks(supabase, document, job.options);
+
+    const { error: planError } = await supabase
+      .from("processing_jobs")
+      .update({ chunk_plan: chunks })
+      .eq("id", job.id)
+      .eq("worker_id", workerId);
+
+    if (planError) {
+      console.error("Failed to store chunk plan:", planError);
+    }
+  }
+
+  let staged = false;
+  for (let start = (job.last_chunk_index ?? -1) + 1; start < chunks.length; start += ROUND_SIZE) {
+    if (Date.now() > deadline) {
+      console.log(`Releasing job ${job.id} at chunk ${start} of ${chunks.length}`);
+      return { state: "released", staged };
+    }
+
+    const round = chunks.slice(start, start + ROUND_SIZE);
+
+    // Unchanged chunks keep their embedding, unless re-embedding was asked for
+    const liveEmbeddings = job.options.reembed
+      ? new Map<string, string>()
+      : await loadLiveEmbeddings(supabase, document.id, embeddingModel, round.map((chunk) => chunk.contentHash));
+    const embeddings: (number[] | string | undefined)[] = round.map((chunk) => liveEmbeddings.get(chunk.contentHash));
+    const pending = round.flatMap((_, i) => (embeddings[i] === undefined ? [i] : []));
+
+    if (pending.length < round.length) {
+      console.log(`Reusing ${round.length - pending.length} embeddings of unchanged chunks`);
+    }
+
+    const failures = await embedInBatches(
+      pending.map((i) => round[i].content),
+      {
+        model: embeddingModel,
+        onBatch: async ({ offset, embeddings: batch }) => {
+          batch?.forEach((embedding, i) => {
+            embeddings[pending[offset + i]] = embedding;
+          });
+        },
+      },
+    );
+
+    // Only a fully embedded document may be marked as completed
+    if (failures.length > 0) {
+      return {
+        state: "failed",
+        error: `${failures.length} of ${chunks.length} chunks could not be embedded`,
+        failedChunks: failures.map((failure) => ({
+          chunk_index: round[pending[failure.index]].metadata.chunk_index ?? start + pending[failure.index],
+          error: failure.error,
+        })),
+      };
+    }
+
+    // The whole round is staged at once, so the checkpoint never points past a partial insert
+    const { error: insertError } = await supabase.from("document_chunks").insert(
+      round.map((chunk, i) => ({
+        document_id: document.id,
+        content: chunk.content,
+        content_hash: chunk.contentHash,
+        language: chunk.language,
+        embedding: embeddings[i],
+        embedding_model: embeddingModel,
+        staged: true,
+        metadata: chunk.metadata,
+      })),
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to store chunks: ${insertError.message}`);
+    }
+
+    staged = true;
+    const lastChunkIndex = start + round.length - 1;
+    await supabase
+      .from("processing_jobs")
+      .update({
+        last_chunk_index: lastChunkIndex,
+        lease_expires_at: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("worker_id", workerId);
+
+    await supabase
+      .from("documents")
+      .update({ processing_progress: Math.round(((lastChunkIndex + 1) / chunks.length) * 100) })
+      .eq("id", document.id);
+  }
+
+  // Swap the staged chunks in and mark the document as completed in one transaction
+  const { error: commitError } = await supabase.rpc("commit_document_chunks", {
+    p_document_id: document.id,
+  });
+
+  if (commitError) {
+    throw new Error(`Failed to replace chunks: ${commitError.message}`);
+  }
+
+  return { state: "completed" };
+};
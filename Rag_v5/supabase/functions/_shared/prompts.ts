@@ -0,0 +1,90 @@
+// Prompt templates of the chat and voice functions, one set per language.
+// Refusal and disclaimer texts live with the grounding modes in grounding.ts.
+import type { Language } from "./language.ts";
+
+export interface SourceLabel {
+  index: number;
+  document_title: string;
+  page_number: number | null;
+  heading_path: string[];
+}
+
+interface PromptTemplates {
+  defaultSystemPrompt: string;
+  sourcesHeading: string;
+  sourceLabel: (source: SourceLabel) => string;
+  unknownDocument: string;
+  noDocumentsAvailable: string;
+  ragDisabled: string;
+  voiceSystemPrompt: string;
+  agentInstructions: (prompt: string) => string;
+  knowledgeBase: (content: string) => string;
+  answerLanguage: (target: Language | "auto") => string;
+  emptyKnowledgeBase: string;
+  contextDocumentsAvailable: string;
+}
+
+const PROMPTS: Record<Language, PromptTemplates> = {
+  de: {
+    defaultSystemPrompt: "Du bist ein hilfreicher KI-Assistent.",
+    sourcesHeading: "Relevante Informationen aus den Dokumenten (nummerierte Quellen):",
+    sourceLabel: ({ index, document_title, page_number, heading_path }) =>
+      `[${index}] Quelle: ${document_title}` +
+      (page_number !== null ? `, Seite ${page_number}` : "") +
+      (heading_path.length > 0 ? `, ${heading_path.join(" > ")}` : ""),
+    unknownDocument: "Unbekanntes Dokument",
+    noDocumentsAvailable: "RAG ist aktiviert, aber es sind keine Dokumente verfügbar.",
+    ragDisabled: "RAG ist deaktiviert. Antworte auf Basis deines allgemeinen Wissens.",
+    voiceSystemPrompt: "Du bist ein hilfreicher Assistent und antwortest in freundlichem Ton.",
+    agentInstructions: (prompt) => `Anweisungen des Agenten: ${prompt}`,
+    knowledgeBase: (content) =>
+      "=== WISSENSDATENBANK ===\n" +
+      "Du hast Zugriff auf folgende Informationen aus hochgeladenen Dokumenten. Nutze dieses Wissen, um Fragen präzise zu beantworten:\n\n" +
+      content +
+      "\n\n=== ENDE WISSENSDATENBANK ===\n\n" +
+      "WICHTIGE ANWEISUNGEN:\n" +
+      "- Nutze die Informationen aus der Wissensdatenbank, um Fragen zu beantworten\n" +
+      "- Wenn die Antwort in der Wissensdatenbank zu finden ist, beziehe dich explizit darauf\n" +
+      "- Wenn die Information nicht in der Wissensdatenbank enthalten ist, sage das klar und deutlich\n" +
+      "- Antworte präzise und hilfreich\n",
+    answerLanguage: (target) =>
+      (target === "auto"
+        ? "Antworte in der Sprache, in der die Frage gestellt wurde"
+        : `Antworte immer auf ${target === "en" ? "Englisch" : "Deutsch"}`) +
+      ", auch wenn die Quellen in einer anderen Sprache verfasst sind.",
+    emptyKnowledgeBase: "Hinweis: Die Wissensdatenbank ist verfügbar, aber momentan leer.",
+    contextDocumentsAvailable: "Relevante Kontextdokumente stehen als Referenz zur Verfügung.",
+  },
+  en: {
+    defaultSystemPrompt: "You are a helpful AI assistant.",
+    sourcesHeading: "Relevant information from documents (numbered sources):",
+    sourceLabel: ({ index, document_title, page_number, heading_path }) =>
+      `[${index}] Source: ${document_title}` +
+      (page_number !== null ? `, page ${page_number}` : "") +
+      (heading_path.length > 0 ? `, ${heading_path.join(" > ")}` : ""),
+    unknownDocument: "Unknown document",
+    noDocumentsAvailable: "RAG is enabled but no documents are available.",
+    ragDisabled: "RAG is disabled. Answer based on your general knowledge.",
+    voiceSystemPrompt: "You are a helpful assistant and answer in a friendly tone.",
+    agentInstructions: (prompt) => `Agent Instructions: ${prompt}`,
+    knowledgeBase: (content) =>
+      "=== KNOWLEDGE BASE ===\n" +
+      "You have access to the following information from uploaded documents. Use it to answer questions precisely:\n\n" +
+      content +
+      "\n\n=== END OF KNOWLEDGE BASE ===\n\n" +
+      "IMPORTANT INSTRUCTIONS:\n" +
+      "- Use the information from the knowledge base to answer questions\n" +
+      "- If the answer is in the knowledge base, refer to it explicitly\n" +
+      "- If the information is not in the knowledge base, say so clearly\n" +
+      "- Answer precisely and helpfully\n",
+    answerLanguage: (target) =>
+      (target === "auto"
+        ? "Answer in the language the question was asked in"
+        : `Always answer in ${target === "en" ? "English" : "German"}`) +
+      ", even if the sources are written in another language.",
+    emptyKnowledgeBase: "Note: The knowledge base is available but currently empty.",
+    contextDocumentsAvailable: "Relevant context documents are available for reference.",
+  },
+};
+
+export const getPrompts = (language: Language): PromptTemplates => PROMPTS[language];
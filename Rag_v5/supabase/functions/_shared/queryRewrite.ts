@@ -0,0 +1,87 @@
+// Rewrites the latest user message into standalone search queries, so
+// conversational follow-ups like "and what about the second one?" retrieve
+// the passages they refer to.
+import type { HistoryMessage } from "./history.ts";
+
+export interface RewriteOptions {
+  apiKey: string;
+  // Additional paraphrased queries to generate
+  paraphrases: number;
+  model?: string;
+}
+
+export interface RewrittenQueries {
+  // The latest message rewritten to be understandable without the conversation
+  standalone: string;
+  // The standalone query followed by its paraphrases, all used for retrieval
+  queries: string[];
+}
+
+const REWRITE_MODEL = "gpt-4o-mini";
+// Recent messages shown to the rewriter; older turns are covered by the history summary
+const REWRITE_HISTORY_MESSAGES = 6;
+
+const buildInstructions = (paraphrases: number) =>
+  "You turn the latest user message of a conversation into search queries for a document search. " +
+  "Rewrite it into a standalone query that can be understood without the conversation: resolve " +
+  "pronouns and references such as \"the second one\" using the conversation, and keep names, " +
+  "numbers and product codes verbatim. Keep the language of the user message and do not answer it. " +
+  (paraphrases > 0
+    ? `Also write ${paraphrases} alternative phrasings of the standalone query using different wording. `
+    : "") +
+  'Respond with JSON: {"standalone": string, "paraphrases": string[]}.';
+
+export const rewriteQuery = async (
+  message: string,
+  history: HistoryMessage[],
+  { apiKey, paraphrases, model = REWRITE_MODEL }: RewriteOptions,
+): Promise<RewrittenQueries> => {
+  const unchanged = { standalone: message, queries: [message] };
+  if (history.length === 0 && paraphrases === 0) return unchanged;
+
+  // Keep the summary, which the history builder puts first, alongside the recent turns
+  const summary = history[0]?.role === "system" ? [history[0]] : [];
+  const transcript = [...summary, ...history.slice(summary.length).slice(-REWRITE_HISTORY_MESSAGES)]
+    .map((msg) => `${msg.role}: ${msg.content}`)
+    .join("\n\n");
+
+  try {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey.trim()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: buildInstructions(paraphrases) },
+          {
+            role: "user",
+            content: `Conversation:\n${transcript || "(none)"}\n\nLatest user message:\n${message}`,
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Query rewrite failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? "{}");
+    const standalone = typeof parsed.standalone === "string" && parsed.standalone.trim() ? parsed.standalone.trim() : message;
+    const alternatives = Array.isArray(parsed.paraphrases)
+      ? parsed.paraphrases.filter((q: unknown): q is string => typeof q === "string" && q.trim() !== "")
+      : [];
+
+    const queries = [...new Set([standalone, ...alternatives.map((q: string) => q.trim())])].slice(0, paraphrases + 1);
+    return { standalone, queries };
+  } catch (error) {
+    // Retrieval still works with the raw message, just worse for follow-ups
+    console.error("Query rewrite error:", error);
+    return unchanged;
+  }
+};
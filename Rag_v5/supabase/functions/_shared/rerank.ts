@@ -0,0 +1,126 @@
+// Optional reranking of retrieved chunks. Retrieval fetches a wider candidate
+// set, a reranker scores each candidate against the query and the best
+// chunks are kept. Rerankers are looked up by the agent's `reranker` setting.
+import type { RetrievedChunk } from "./retrieval.ts";
+
+export type RerankerKind = "none" | "llm" | "http";
+
+type Reranker = (query: string, chunks: RetrievedChunk[], topN: number) => Promise<RetrievedChunk[]>;
+
+const LLM_RERANK_MODEL = "gpt-4o-mini";
+// Passages are truncated for LLM scoring to keep the request small
+const LLM_PASSAGE_CHARS = 1200;
+
+// Sorts chunks by the given scores, keeping retrieval order for ties
+const orderByScores = (chunks: RetrievedChunk[], scores: number[], topN: number) =>
+  chunks
+    .map((chunk, i) => ({ chunk: { ...chunk, rerank_score: scores[i] ?? 0 }, i }))
+    .sort((a, b) => b.chunk.rerank_score - a.chunk.rerank_score || a.i - b.i)
+    .slice(0, topN)
+    .map(({ chunk }) => chunk);
+
+// Asks the chat model to rate every passage's relevance from 0 to 10 in one request
+const llmReranker: Reranker = async (query, chunks, topN) => {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+
+  const passages = chunks
+    .map((chunk, i) => `[${i}] ${chunk.content.slice(0, LLM_PASSAGE_CHARS)}`)
+    .join("\n\n");
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey.trim()}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: LLM_RERANK_MODEL,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content:
+            "Rate how well each numbered passage answers the query, from 0 (irrelevant) to 10 (answers it directly). " +
+            'Respond with JSON: {"scores": number[]} with one score per passage, in passage order.',
+        },
+        { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`LLM rerank failed with status ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? "{}");
+  if (!Array.isArray(parsed.scores)) throw new Error("LLM rerank returned no scores");
+
+  return orderByScores(chunks, parsed.scores.map(Number), topN);
+};
+
+// Calls a rerank model behind a Cohere-compatible HTTP API, e.g. a local
+// cross-encoder server: POST { query, documents, top_n } returning
+// { results: [{ index, relevance_score }] }.
+const httpReranker: Reranker = async (query, chunks, topN) => {
+  const url = Deno.env.get("RERANK_API_URL");
+  if (!url) throw new Error("RERANK_API_URL is not configured");
+
+  const apiKey = Deno.env.get("RERANK_API_KEY");
+  const model = Deno.env.get("RERANK_MODEL");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      ...(apiKey && { Authorization: `Bearer ${apiKey.trim()}` }),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...(model && { model }),
+      query,
+      documents: chunks.map((chunk) => chunk.content),
+      top_n: topN,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Rerank request failed with status ${response.status}: ${await response.text()}`);
+  }
+
+  const data = await response.json();
+  const scores: number[] = new Array(chunks.length).fill(0);
+  for (const result of (data.results ?? []) as { index: number; relevance_score: number }[]) {
+    scores[result.index] = result.relevance_score;
+  }
+
+  return orderByScores(chunks, scores, topN);
+};
+
+const rerankers: Record<Exclude<RerankerKind, "none">, Reranker> = {
+  llm: llmReranker,
+  http: httpReranker,
+};
+
+// Number of candidates to retrieve so the reranker has something to choose from
+export const candidateCount = (kind: RerankerKind, topK: number, rerankCandidates: number) =>
+  kind === "none" ? topK : Math.max(topK, rerankCandidates);
+
+// Reranks `chunks` and keeps the best `topN`. Falls back to retrieval order if
+// the reranker fails, so a reranker outage degrades precision, not availability.
+export const rerankChunks = async (
+  kind: RerankerKind,
+  query: string,
+  chunks: RetrievedChunk[],
+  topN: number,
+): Promise<RetrievedChunk[]> => {
+  if (kind === "none" || chunks.length <= 1) return chunks.slice(0, topN);
+
+  try {
+    return await rerankers[kind](query, chunks, topN);
+  } catch (error) {
+    console.error(`Reranking with "${kind}" failed, using retrieval order:`, error);
+    return chunks.slice(0, topN);
+  }
+};
@@ -0,0 +1,189 @@
+// Chunk retrieval shared by rag-chat and chat-search.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { estimateTokens } from "./chunker.ts";
+import type { GroundingMode } from "./grounding.ts";
+import type { Language } from "./language.ts";
+import type { RerankerKind } from "./rerank.ts";
+
+export interface RetrievedChunk {
+  id: string;
+  document_id: string;
+  content: string;
+  metadata: { chunk_index?: number; page_number?: number; heading_path?: string[] } | null;
+  language: Language | null;
+  similarity: number;
+  keyword_rank: number;
+  score: number;
+  // Set when a reranker has scored the chunk
+  rerank_score?: number;
+}
+
+// How retrieval treats chunks written in another language than the question
+export type LanguageMode = "off" | "boost" | "filter";
+
+export interface HybridSearchParams {
+  queryText: string;
+  queryEmbedding: number[];
+  documentIds: string[];
+  // Model that produced queryEmbedding; only chunks embedded by it are compared
+  embeddingModel: string;
+  matchCount: number;
+  matchThreshold: number;
+  // Language of the question; null leaves retrieval language-agnostic
+  queryLanguage?: Language | null;
+  languageMode?: LanguageMode;
+}
+
+// Runs hybrid_match_document_chunks, which fuses pgvector similarity with
+// Postgres full-text ranking so exact identifiers are found alongside
+// semantically similar passages, optionally preferring the question's language.
+export const hybridSearch = async (
+  supabase: SupabaseClient,
+  {
+    queryText,
+    queryEmbedding,
+    documentIds,
+    embeddingModel,
+    matchCount,
+    matchThreshold,
+    queryLanguage = null,
+    languageMode = "off",
+  }: HybridSearchParams,
+): Promise<RetrievedChunk[]> => {
+  const { data, error } = await supabase.rpc("hybrid_match_document_chunks", {
+    query_text: queryText,
+    query_embedding: queryEmbedding,
+    match_count: matchCount,
+    filter_document_ids: documentIds,
+    match_threshold: matchThreshold,
+    query_language: queryLanguage,
+    language_mode: languageMode,
+    query_embedding_model: embeddingModel,
+  });
+
+  if (error) {
+    throw new Error(`Hybrid search failed: ${error.message}`);
+  }
+
+  return (data || []) as RetrievedChunk[];
+};
+
+// Groups documents by the model their chunks were embedded with, so each
+// group can be searched with a query embedding from the same model.
+// Documents that were never embedded are left out.
+export const groupByEmbeddingModel = async (
+  supabase: SupabaseClient,
+  documentIds: string[],
+): Promise<Map<string, string[]>> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id, embedding_model")
+    .in("id", documentIds)
+    .not("embedding_model", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load embedding models: ${error.message}`);
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const doc of (data || []) as { id: string; embedding_model: string }[]) {
+    groups.set(doc.embedding_model, [...(groups.get(doc.embedding_model) ?? []), doc.id]);
+  }
+  return groups;
+};
+
+// Same constant as the rrf_k default of hybrid_match_document_chunks
+const RRF_K = 60;
+
+// Fuses the results of several queries with reciprocal rank fusion, so chunks
+// found by more than one query rank higher. Keeps each chunk's best similarity.
+export const mergeRetrievalResults = (resultLists: RetrievedChunk[][], matchCount: number): RetrievedChunk[] => {
+  if (resultLists.length === 1) return resultLists[0].slice(0, matchCount);
+
+  const merged = new Map<string, RetrievedChunk>();
+  for (const results of resultLists) {
+    results.forEach((chunk, rank) => {
+      const fused = 1 / (RRF_K + rank + 1);
+      const existing = merged.get(chunk.id);
+      if (existing) {
+        existing.score += fused;
+        existing.similarity = Math.max(existing.similarity, chunk.similarity);
+        existing.keyword_rank = Math.max(existing.keyword_rank, chunk.keyword_rank);
+      } else {
+        merged.set(chunk.id, { ...chunk, score: fused });
+      }
+    });
+  }
+
+  return [...merged.values()].sort((a, b) => b.score - a.score).slice(0, matchCount);
+};
+
+export interface RetrievalSettings {
+  top_k: number;
+  similarity_threshold: number;
+  max_context_tokens: number;
+  history_length: number;
+  chat_model: string;
+  temperature: number;
+  query_paraphrases: number;
+  reranker: RerankerKind;
+  rerank_candidates: number;
+  grounding_mode: GroundingMode;
+  // null uses the localized default refusal
+  refusal_message: string | null;
+  language_mode: LanguageMode;
+  // "auto" answers in the language of the question
+  answer_language: Language | "auto";
+}
+
+// Used when a conversation has no agent; mirrors the column defaults on `agents`
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  top_k: 5,
+  similarity_threshold: 0.3,
+  max_context_tokens: 3000,
+  history_length: 10,
+  chat_model: "gpt-4o-mini",
+  temperature: 0.7,
+  query_paraphrases: 0,
+  reranker: "none",
+  rerank_candidates: 20,
+  grounding_mode: "strict",
+  refusal_message: null,
+  language_mode: "off",
+  answer_language: "auto",
+};
+
+export const RETRIEVAL_SETTINGS_COLUMNS =
+  "top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature, query_paraphrases, reranker, rerank_candidates, grounding_mode, refusal_message, language_mode, answer_language";
+
+export const resolveRetrievalSettings = (agent: Partial<RetrievalSettings> | null | undefined): RetrievalSettings => ({
+  top_k: agent?.top_k ?? DEFAULT_RETRIEVAL_SETTINGS.top_k,
+  similarity_threshold: agent?.similarity_threshold ?? DEFAULT_RETRIEVAL_SETTINGS.similarity_threshold,
+  max_context_tokens: agent?.max_context_tokens ?? DEFAULT_RETRIEVAL_SETTINGS.max_context_tokens,
+  history_length: agent?.history_length ?? DEFAULT_RETRIEVAL_SETTINGS.history_length,
+  chat_model: agent?.chat_model ?? DEFAULT_RETRIEVAL_SETTINGS.chat_model,
+  temperature: agent?.temperature ?? DEFAULT_RETRIEVAL_SETTINGS.temperature,
+  query_paraphrases: agent?.query_paraphrases ?? DEFAULT_RETRIEVAL_SETTINGS.query_paraphrases,
+  reranker: agent?.reranker ?? DEFAULT_RETRIEVAL_SETTINGS.reranker,
+  rerank_candidates: agent?.rerank_candidates ?? DEFAULT_RETRIEVAL_SETTINGS.rerank_candidates,
+  grounding_mode: agent?.grounding_mode ?? DEFAULT_RETRIEVAL_SETTINGS.grounding_mode,
+  refusal_message: agent?.refusal_message ?? DEFAULT_RETRIEVAL_SETTINGS.refusal_message,
+  language_mode: agent?.language_mode ?? DEFAULT_RETRIEVAL_SETTINGS.language_mode,
+  answer_language: agent?.answer_language ?? DEFAULT_RETRIEVAL_SETTINGS.answer_language,
+});
+
+// Keeps the best-ranked chunks that fit into the context token budget.
+// The first chunk is always kept so an oversized top hit is not dropped entirely.
+export const fitToContextBudget = <T extends { content: string }>(chunks: T[], maxTokens: number): T[] => {
+  const kept: T[] = [];
+  let used = 0;
+
+  for (const chunk of chunks) {
+    const tokens = estimateTokens(chunk.content);
+    if (kept.length > 0 && used + tokens > maxTokens) break;
+    kept.push(chunk);
+    used += tokens;
+  }
+
+  return kept;
+};
@@ -0,0 +1,241 @@
+// Tables found in documents: CSV parsing, Markdown rendering and detection of
+// tables in PDF text layouts. Extractors render tables as Markdown into the
+// document text and report where they are, so the chunker can split them into
+// row groups that each repeat the header.
+
+export interface Table {
+  headers: string[];
+  rows: string[][];
+}
+
+// A table rendered into a document's text, between the offsets `start` and `end`
+export interface TableBlock extends Table {
+  start: number;
+  end: number;
+}
+
+// Text with the tables rendered into it
+export interface TextWithTables {
+  text: string;
+  tables: TableBlock[];
+}
+
+const escapeCell = (cell: string) => cell.replace(/\s+/g, " ").replace(/\|/g, "\\|").trim();
+
+export const renderMarkdownRow = (cells: string[]) => `| ${cells.map(escapeCell).join(" | ")} |`;
+
+// Header line, separator line and one line per row
+export const renderMarkdownTable = ({ headers, rows }: Table) =>
+  [renderMarkdownRow(headers), renderMarkdownRow(headers.map(() => "---")), ...rows.map(renderMarkdownRow)].join("\n");
+
+// Gives every column a header and every row one cell per column
+export const normalizeTable = (headers: string[], rows: string[][]): Table => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), headers.length);
+
+  return {
+    headers: Array.from({ length: width }, (_, i) => headers[i]?.trim() || `Column ${i + 1}`),
+    rows: rows.map((row) => Array.from({ length: width }, (_, i) => row[i]?.trim() ?? "")),
+  };
+};
+
+// Joins text parts, moving each part's tables to their offsets in the joined text
+export const joinWithTables = (parts: (string | TextWithTables)[], separator: string): TextWithTables => {
+  let text = "";
+  const tables: TableBlock[] = [];
+
+  parts.forEach((part, i) => {
+    if (i > 0) text += separator;
+    const offset = text.length;
+
+    if (typeof part === "string") {
+      text += part;
+    } else {
+      text += part.text;
+      tables.push(...part.tables.map((table) => ({ ...table, start: table.start + offset, end: table.end + offset })));
+    }
+  });
+
+  return { text, tables };
+};
+
+// Text with the given tables as Markdown blocks between paragraphs of text
+export const renderWithTables = (blocks: (string | Table)[]): TextWithTables =>
+  joinWithTables(
+    blocks.map((block) => {
+      if (typeof block === "string") return block;
+      const markdown = renderMarkdownTable(block);
+      return { text: markdown, tables: [{ ...block, start: 0, end: markdown.length }] };
+    }),
+    "\n\n",
+  );
+
+export interface CsvRow {
+  cells: string[];
+  // Offsets of the row in the CSV text
+  start: number;
+  end: number;
+}
+
+// Semicolons are common in German spreadsheet exports, tabs in copied tables
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// The delimiter occurring most often outside quotes in the first line
+const detectDelimiter = (text: string) => {
+  const counts = new Map(CSV_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "\n" && !inQuotes) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+// Parses CSV with quoted fields, escaped quotes and line breaks inside quotes.
+// Blank lines are skipped.
+export const parseCsv = (text: string): CsvRow[] => {
+  const delimiter = detectDelimiter(text);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let rowStart = 0;
+
+  const endRow = (end: number) => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) rows.push({ cells, start: rowStart, end });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow(text[i - 1] === "\r" ? i - 1 : i);
+      rowStart = i + 1;
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow(text.length);
+
+  return rows;
+};
+
+// A positioned text item of a PDF page as reported by pdf.js
+export interface PdfTextItem {
+  str: string;
+  // [scaleX, skewY, skewX, scaleY, x, y]
+  transform: number[];
+  width: number;
+  hasEOL?: boolean;
+}
+
+interface LayoutCell {
+  text: string;
+  x: number;
+}
+
+// Gaps wider than this many font sizes separate table cells; gaps between
+// words of a cell are a fraction of the font size
+const CELL_GAP = 1.5;
+// Smaller runs of aligned lines are more likely layout than a table
+const MIN_TABLE_LINES = 3;
+// Longer cells indicate columns of prose rather than a table
+const MAX_MEAN_CELL_LENGTH = 40;
+
+const fontSize = (item: PdfTextItem) => Math.hypot(item.transform[2], item.transform[3]) || 10;
+
+// Groups the page's items into visual lines, top to bottom, and the items of
+// every line into cells, left to right
+const layoutLines = (items: PdfTextItem[]): LayoutCell[][] => {
+  const sorted = items
+    .filter((item) => item.str.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+  const lines: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].transform[5] - item.transform[5]) <= fontSize(item) * 0.5) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map((line) => {
+    const cells: LayoutCell[] = [];
+    let previous: PdfTextItem | null = null;
+
+    for (const item of line.sort((a, b) => a.transform[4] - b.transform[4])) {
+      const gap = previous ? item.transform[4] - (previous.transform[4] + previous.width) : Infinity;
+
+      if (gap > fontSize(item) * CELL_GAP) {
+        cells.push({ text: item.str.trim(), x: item.transform[4] });
+      } else {
+        const cell = cells[cells.length - 1];
+        cell.text = `${cell.text}${gap > fontSize(item) * 0.15 ? " " : ""}${item.str.trim()}`;
+      }
+      previous = item;
+    }
+
+    return cells;
+  });
+};
+
+const looksTabular = (run: LayoutCell[][]) => {
+  const cells = run.flat();
+  return cells.reduce((sum, cell) => sum + cell.text.length, 0) / cells.length <= MAX_MEAN_CELL_LENGTH;
+};
+
+// Lays out a PDF page and renders runs of lines with the same number of cells
+// as Markdown tables, the first line being the header. Pages without such runs
+// keep pdf.js' own text, so their text is not affected by the layout analysis.
+export const layoutPdfPage = (items: PdfTextItem[]): TextWithTables => {
+  const lines = layoutLines(items);
+  const blocks: (string | Table)[] = [];
+  let hasTables = false;
+
+  for (let i = 0; i < lines.length; ) {
+    let end = i + 1;
+    if (lines[i].length >= 2) {
+      while (end < lines.length && lines[end].length === lines[i].length) end++;
+    }
+
+    const run = lines.slice(i, end);
+    if (run.length >= MIN_TABLE_LINES && looksTabular(run)) {
+      const [header, ...rows] = run.map((line) => line.map((cell) => cell.text));
+      blocks.push(normalizeTable(header, rows));
+      hasTables = true;
+    } else {
+      const text = run.map((line) => line.map((cell) => cell.text).join(" ")).join("\n");
+      // Consecutive text lines form one block
+      if (typeof blocks[blocks.length - 1] === "string") blocks[blocks.length - 1] += `\n${text}`;
+      else blocks.push(text);
+    }
+    i = end;
+  }
+
+  if (!hasTables) {
+    return { text: items.map((item) => item.str + (item.hasEOL ? "\n" : "")).join("").trim(), tables: [] };
+  }
+
+  return renderWithTables(blocks);
+};
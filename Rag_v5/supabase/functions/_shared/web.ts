@@ -0,0 +1,319 @@
+// Fetching web pages and sitemaps as document sources.
+//
+// Only public http(s) URLs are fetched: the host must resolve to public
+// addresses only, and every redirect target is checked again. ALLOW_PRIVATE_URLS=true
+// lifts the restriction for local development, e.g. to ingest pages served on
+// localhost. It must never be set in production.
+import { detectDocumentFormat, type DocumentFormat } from "./extraction.ts";
+
+export interface Snapshot {
+  // URL after redirects
+  url: string;
+  // MIME type without parameters
+  contentType: string;
+  data: Uint8Array;
+  fetchedAt: string;
+}
+
+export interface SitemapOptions {
+  // Levels of nested sitemap indexes that are followed
+  maxDepth: number;
+  maxPages: number;
+  // Hosts whose pages are ingested, including their subdomains
+  allowedHosts: string[];
+}
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+const USER_AGENT = "VerboticContexa/1.0 (document ingestion)";
+
+// Content types that say nothing about the content, so the URL's extension decides
+const GENERIC_CONTENT_TYPES = ["", "application/octet-stream", "binary/octet-stream"];
+// Formats a text/plain response may be refined to by its extension, e.g. Markdown served as plain text
+const PLAIN_TEXT_FORMATS: DocumentFormat[] = ["text", "markdown", "csv"];
+
+// Names that never resolve to a public host
+const PRIVATE_HOST_PATTERNS = [/^localhost$/, /\.localhost$/, /\.local$/, /\.internal$/];
+
+const allowsPrivateUrls = () => Deno.env.get("ALLOW_PRIVATE_URLS") === "true";
+
+// The four octets of a dotted IPv4 address; null for anything else. URL
+// parsing already turns decimal, octal and hex forms into dotted ones.
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+};
+
+// The eight 16-bit groups of an IPv6 address, with or without brackets; null
+// for anything else
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.replace(/^\[|\]$/g, "").split("%")[0].toLowerCase();
+
+  // A trailing dotted IPv4 address, as in ::ffff:127.0.0.1
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+// Loopback, private, carrier-grade NAT, link-local (including the cloud
+// metadata endpoint 169.254.169.254), benchmarking, multicast and reserved ranges
+const isPrivateIPv4 = ([a, b, c]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  a >= 224 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 0 && c === 0) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19));
+
+const isPrivateIPv6 = (groups: number[]) => {
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255];
+  const zeroPrefix = (length: number) => groups.slice(0, length).every((group) => group === 0);
+
+  // Unspecified and loopback
+  if (zeroPrefix(7) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible addresses reach the embedded IPv4 host
+  if (zeroPrefix(5) && (groups[5] === 0xffff || groups[5] === 0)) return isPrivateIPv4(embeddedIPv4);
+  // NAT64 (64:ff9b::/96)
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in its second and third group
+  if (groups[0] === 0x2002) {
+    return isPrivateIPv4([groups[1] >> 8, groups[1] & 255, groups[2] >> 8, groups[2] & 255]);
+  }
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+};
+
+// Whether an IP address is anything but a public unicast address; null when
+// `address` is not an IP address but a name
+const isPrivateAddress = (address: string): boolean | null => {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPrivateIPv6(ipv6) : null;
+};
+
+// Resolves the URL's host and rejects it unless all its addresses are public.
+// fetch resolves the name once more, so this does not pin the address; it
+// keeps names pointing at internal services and metadata endpoints out.
+const assertPublicHost = async (url: URL) => {
+  if (allowsPrivateUrls()) return;
+
+  const literal = isPrivateAddress(url.hostname);
+  if (literal !== null) {
+    if (literal) throw new Error(`URL points to a private address: ${url.href}`);
+    return;
+  }
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(url.hostname, "A"),
+    Deno.resolveDns(url.hostname, "AAAA"),
+  ]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+
+  if (addresses.length === 0) {
+    throw new Error(`Host could not be resolved: ${url.hostname}`);
+  }
+  if (addresses.some((address) => isPrivateAddress(address) !== false)) {
+    throw new Error(`URL points to a private address: ${url.href}`);
+  }
+};
+
+// Parses a URL given by a user or found in a sitemap and rejects anything but public http(s) URLs
+export const parseSourceUrl = (raw: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new Error(`Invalid URL: ${raw}`);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs are supported: ${raw}`);
+  }
+  if (
+    !allowsPrivateUrls() &&
+    (PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(url.hostname)) || isPrivateAddress(url.hostname))
+  ) {
+    throw new Error(`URL points to a private address: ${raw}`);
+  }
+
+  url.hash = "";
+  return url;
+};
+
+export const isAllowedHost = (url: URL, allowedHosts: string[]) =>
+  allowedHosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+
+// Fetches a URL with a timeout and size limit, following redirects one at a
+// time so every target passes parseSourceUrl and the address check
+export const fetchSnapshot = async (url: URL): Promise<Snapshot> => {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(current);
+
+    const response = await fetch(current, {
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects: ${url.href}`);
+      current = parseSourceUrl(new URL(location, current).href);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Fetching ${current.href} failed with status ${response.status}`);
+    }
+
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (declaredLength > MAX_SNAPSHOT_BYTES) {
+      await response.body?.cancel();
+      throw new Error(`${current.href} is larger than ${MAX_SNAPSHOT_BYTES} bytes`);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (data.length > MAX_SNAPSHOT_BYTES) {
+      throw new Error(`${current.href} is larger than ${MAX_SNAPSHOT_BYTES} bytes`);
+    }
+
+    return {
+      url: current.href,
+      contentType: (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase(),
+      data,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+};
+
+// The snapshot's format. Unlike uploads, the server's Content-Type decides:
+// a page's path says little about what it serves, e.g. an HTML page at
+// /guide.md or /download?file=report.pdf. The extension of the URL's path,
+// without its query, is only used when the type is missing or generic.
+export const snapshotFormat = (snapshot: Snapshot): DocumentFormat | null => {
+  const pathFormat = detectDocumentFormat(null, new URL(snapshot.url).pathname.toLowerCase());
+  if (GENERIC_CONTENT_TYPES.includes(snapshot.contentType)) return pathFormat;
+
+  const typeFormat = detectDocumentFormat(snapshot.contentType, "");
+  if (typeFormat === "text" && pathFormat && PLAIN_TEXT_FORMATS.includes(pathFormat)) return pathFormat;
+  return typeFormat;
+};
+
+// Storage path of a snapshot in the documents bucket, named after its URL,
+// e.g. "<user>/1730880000000_example.com_docs_pricing.html"
+export const snapshotFilePath = (userId: string, url: string, extension: string) => {
+  const { hostname, pathname } = new URL(url);
+  const name = `${hostname}${pathname}`
+    .replace(/[^a-zA-Z0-9.-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 100);
+  return `${userId}/${Date.now()}_${name}.${extension}`;
+};
+
+// The page's <title>, used as document title
+export const htmlTitle = (data: Uint8Array) => {
+  const title = new TextDecoder().decode(data).match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return title
+    ?.replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const sitemapText = async (snapshot: Snapshot) => {
+  const gzipped = snapshot.contentType.includes("gzip") || new URL(snapshot.url).pathname.endsWith(".gz");
+  if (!gzipped) return new TextDecoder().decode(snapshot.data);
+
+  // The size limit applies to the decompressed sitemap too, so a small
+  // archive cannot expand without bound
+  const reader = new Blob([snapshot.data]).stream().pipeThrough(new DecompressionStream("gzip")).getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > MAX_SNAPSHOT_BYTES) {
+      await reader.cancel();
+      throw new Error(`${snapshot.url} is larger than ${MAX_SNAPSHOT_BYTES} bytes when decompressed`);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+};
+
+// Collects page URLs from a sitemap, following sitemap indexes up to
+// `maxDepth` levels. Pages on other hosts and invalid URLs are skipped.
+export const collectSitemapUrls = async (sitemapUrl: URL, options: SitemapOptions): Promise<string[]> => {
+  const pages: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = async (url: URL, depth: number) => {
+    if (pages.length >= options.maxPages || visited.has(url.href)) return;
+    visited.add(url.href);
+
+    const xml = await sitemapText(await fetchSnapshot(url));
+    const locations = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/g)].map(([, loc]) =>
+      loc.replace(/&amp;/g, "&").trim(),
+    );
+    const isIndex = /<sitemapindex[\s>]/.test(xml);
+
+    for (const location of locations) {
+      if (pages.length >= options.maxPages) return;
+
+      let target: URL;
+      try {
+        target = parseSourceUrl(location);
+      } catch (error) {
+        console.warn(`Skipping sitemap entry: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+      if (!isAllowedHost(target, options.allowedHosts)) continue;
+
+      if (isIndex) {
+        if (depth < options.maxDepth) await visit(target, depth + 1);
+      } else if (!pages.includes(target.href)) {
+        pages.push(target.href);
+      }
+    }
+  };
+
+  await visit(sitemapUrl, 0);
+  return pages;
+};
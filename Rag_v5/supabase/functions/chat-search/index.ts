@@ -1,6 +1,19 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { embedQuery } from "../_shared/embeddings.ts";
+import { detectLanguage } from "../_shared/language.ts";
+import { candidateCount, rerankChunks } from "../_shared/rerank.ts";
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  fitToContextBudget,
+  groupByEmbeddingModel,
+  hybridSearch,
+  mergeRetrievalResults,
+  resolveRetrievalSettings,
+  RETRIEVAL_SETTINGS_COLUMNS,
+  type RetrievedChunk,
+} from "../_shared/retrieval.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,7 +26,7 @@ serve(async (req) => {
   }
 
   try {
-    const { user_id, search_query } = await req.json();
+    const { user_id, search_query, agent_id } = await req.json();
 
     if (!user_id || !search_query) {
       throw new Error("user_id and search_query are required");
@@ -25,6 +38,22 @@ serve(async (req) => {
 
     console.log(`Vector search request for user: ${user_id}, query: "${search_query}"`);
 
+    // Use the agent's retrieval settings when the search is made on behalf of one
+    let settings = DEFAULT_RETRIEVAL_SETTINGS;
+    if (agent_id) {
+      const { data: agent, error: agentError } = await supabase
+        .from("agents")
+        .select(RETRIEVAL_SETTINGS_COLUMNS)
+        .eq("id", agent_id)
+        .eq("user_id", user_id)
+        .single();
+
+      if (agentError || !agent) {
+        throw new Error("Agent not found");
+      }
+      settings = resolveRetrievalSettings(agent);
+    }
+
     // Get all documents for this user
     const { data: documents, error: docsError } = await supabase
       .from("documents")
@@ -50,54 +79,45 @@ serve(async (req) => {
     const documentIds = documents.map(doc => doc.id);
     console.log(`Found ${documentIds.length} documents for user`);
 
-    // Generate embedding for the search query
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
-
-    console.log("Generating embedding for search query...");
-    const embeddingResponse = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: search_query,
-      }),
-    });
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      console.error("OpenAI embedding error:", embeddingResponse.status, errorText);
-      throw new Error(`Failed to generate embedding: ${embeddingResponse.status}`);
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const embedding = embeddingData.data[0].embedding;
-
-    console.log("Performing vector similarity search...");
-    // Perform vector similarity search
-    const { data: chunks, error: searchError } = await supabase.rpc('match_document_chunks', {
-      query_embedding: embedding,
-      match_threshold: 0.3,
-      match_count: 5,
-      filter_document_ids: documentIds
-    });
-
-    if (searchError) {
-      console.error("Vector search error:", searchError);
-      throw new Error("Vector search failed");
+    console.log("Performing hybrid search...");
+    // Perform hybrid vector + full-text search, embedding the query once per
+    // model present among the documents
+    let chunks: RetrievedChunk[];
+    try {
+      const matchCount = candidateCount(settings.reranker, settings.top_k, settings.rerank_candidates);
+      const modelGroups = await groupByEmbeddingModel(supabase, documentIds);
+      const resultLists = await Promise.all(
+        [...modelGroups].map(async ([embeddingModel, modelDocumentIds]) =>
+          hybridSearch(supabase, {
+            queryText: search_query,
+            queryEmbedding: await embedQuery(search_query, embeddingModel),
+            documentIds: modelDocumentIds,
+            embeddingModel,
+            matchCount,
+            matchThreshold: settings.similarity_threshold,
+            queryLanguage: detectLanguage(search_query),
+            languageMode: settings.language_mode,
+          }),
+        ),
+      );
+      chunks = mergeRetrievalResults(resultLists, matchCount);
+      chunks = await rerankChunks(settings.reranker, search_query, chunks, settings.top_k);
+      chunks = fitToContextBudget(chunks, settings.max_context_tokens);
+    } catch (searchError) {
+      console.error("Hybrid search error:", searchError);
+      throw new Error("Hybrid search failed");
     }
 
-    console.log(`Found ${chunks?.length || 0} relevant chunks`);
+    console.log(`Found ${chunks.length} relevant chunks`);
 
     // Format results
-    const results = (chunks || []).map((chunk: any) => ({
+    const results = chunks.map((chunk) => ({
       content: chunk.content,
-      score: chunk.similarity
+      language: chunk.language,
+      score: chunk.similarity,
+      keyword_rank: chunk.keyword_rank,
+      rrf_score: chunk.score,
+      rerank_score: chunk.rerank_score ?? null,
     }));
 
     return new Response(
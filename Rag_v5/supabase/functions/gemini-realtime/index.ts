@@ -1,6 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { resolveConversationContext } from "../_shared/contexts.ts";
+import { DEFAULT_LANGUAGE, getUserLanguage } from "../_shared/language.ts";
+import { getPrompts } from "../_shared/prompts.ts";
+import {
+  fitToContextBudget,
+  resolveRetrievalSettings,
+  RETRIEVAL_SETTINGS_COLUMNS,
+  type RetrievalSettings,
+} from "../_shared/retrieval.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -33,8 +42,14 @@ serve(async (req) => {
     
     console.log(`RAG enabled: ${rag_enabled}, Conversation ID: ${conversation_id}, User ID: ${userId}`);
 
+    const prompts = getPrompts(userId ? await getUserLanguage(supabase, userId) : DEFAULT_LANGUAGE);
+
     // Fetch RAG context if enabled
-    let systemInstruction = "You are a helpful assistant and answer in a friendly tone.";
+    let systemInstruction = prompts.voiceSystemPrompt;
+    // Only set when the conversation uses an agent. The voice session has no per-turn
+    // retrieval, so the context budget and temperature are the settings that apply here;
+    // the chat model setting does not, as the session always runs on Gemini.
+    let agentSettings: RetrievalSettings | null = null;
     if (rag_enabled && userId) {
       console.log("Starting RAG context fetch...");
       try {
@@ -46,7 +61,7 @@ serve(async (req) => {
           // Fetch conversation
           const { data: conversation } = await supabase
             .from("conversations")
-            .select("agent_id, context_id")
+            .select("agent_id, context_id, context_version_id")
             .eq("id", conversation_id)
             .single();
 
@@ -54,10 +69,14 @@ serve(async (req) => {
           if (conversation?.agent_id) {
             const { data: agent } = await supabase
               .from("agents")
-              .select("system_prompt, document_ids")
+              .select(`system_prompt, document_ids, ${RETRIEVAL_SETTINGS_COLUMNS}`)
               .eq("id", conversation.agent_id)
               .single();
 
+            if (agent) {
+              agentSettings = resolveRetrievalSettings(agent);
+            }
+
             if (agent?.system_prompt) {
               agentSystemPrompt = agent.system_prompt;
             }
@@ -69,13 +88,14 @@ serve(async (req) => {
 
           // Fetch context documents if exists
           if (conversation?.context_id) {
-            const { data: context } = await supabase
-              .from("contexts")
-              .select("document_ids")
-              .eq("id", conversation.context_id)
-              .single();
-
-            if (context?.document_ids && context.document_ids.length > 0) {
+            const context = await resolveConversationContext(
+              supabase,
+              userId,
+              conversation.context_id,
+              conversation.context_version_id,
+            );
+
+            if (context && context.document_ids.length > 0) {
               documentIds = [...documentIds, ...context.document_ids];
             }
           }
@@ -83,7 +103,7 @@ serve(async (req) => {
 
         // Merge agent system prompt if present
         if (agentSystemPrompt) {
-          systemInstruction += `\n\nAgent Instructions: ${agentSystemPrompt}`;
+          systemInstruction += `\n\n${prompts.agentInstructions(agentSystemPrompt)}`;
         }
 
         // If no specific documents, get user's completed documents (works even without conversation)
@@ -108,6 +128,7 @@ serve(async (req) => {
             .from("document_chunks")
             .select("content, document_id")
             .in("document_id", documentIds)
+            .eq("staged", false)
             .limit(100); // Increased limit for better context
 
           if (chunksError) {
@@ -115,25 +136,16 @@ serve(async (req) => {
           } else if (chunks && chunks.length > 0) {
             console.log(`Successfully fetched ${chunks.length} document chunks for RAG context`);
 
-            // Combine all chunks into context
-            const allContent = chunks.map(chunk => chunk.content).join("\n\n");
+            // Combine all chunks into context, within the agent's context budget if it has one
+            const contextChunks = agentSettings ? fitToContextBudget(chunks, agentSettings.max_context_tokens) : chunks;
+            const allContent = contextChunks.map(chunk => chunk.content).join("\n\n");
 
             // Build RAG context with clear instructions for Gemini
-            let ragContext = "\n\n=== WISSENSDATENBANK ===\n";
-            ragContext += "Du hast Zugriff auf folgende Informationen aus hochgeladenen Dokumenten. Nutze dieses Wissen, um Fragen präzise zu beantworten:\n\n";
-            ragContext += allContent;
-            ragContext += "\n\n=== ENDE WISSENSDATENBANK ===\n\n";
-            ragContext += "WICHTIGE ANWEISUNGEN:\n";
-            ragContext += "- Nutze die Informationen aus der Wissensdatenbank, um Fragen zu beantworten\n";
-            ragContext += "- Wenn die Antwort in der Wissensdatenbank zu finden ist, beziehe dich explizit darauf\n";
-            ragContext += "- Wenn die Information nicht in der Wissensdatenbank enthalten ist, sage das klar und deutlich\n";
-            ragContext += "- Antworte immer auf Deutsch, präzise und hilfreich\n";
-
-            systemInstruction += ragContext;
+            systemInstruction += `\n\n${prompts.knowledgeBase(allContent)}`;
             console.log(`Added ${allContent.length} characters of RAG context to system instruction`);
           } else {
             console.log("No document chunks found in database");
-            systemInstruction += "\n\nHinweis: Die Wissensdatenbank ist verfügbar, aber momentan leer.";
+            systemInstruction += `\n\n${prompts.emptyKnowledgeBase}`;
           }
         } else {
           console.log("No document IDs available for RAG context");
@@ -146,6 +158,9 @@ serve(async (req) => {
       console.log("RAG not enabled or missing required parameters (need at least user session)");
     }
 
+    // Answer in the language the user speaks unless the agent fixes one
+    systemInstruction += `\n\n${prompts.answerLanguage(agentSettings?.answer_language ?? "auto")}`;
+
 
     // Get Gemini API key
     const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
@@ -161,6 +176,7 @@ serve(async (req) => {
         api_key: GEMINI_API_KEY,
         system_instruction: systemInstruction,
         model: "gemini-2.5-flash-native-audio-preview-09-2025",
+        temperature: agentSettings?.temperature ?? null,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
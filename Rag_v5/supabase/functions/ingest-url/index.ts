@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { resolveEmbeddingModel } from "../_shared/embeddings.ts";
+import { formatExtension } from "../_shared/extraction.ts";
+import { sha256Hex } from "../_shared/hash.ts";
+import {
+  collectSitemapUrls,
+  fetchSnapshot,
+  htmlTitle,
+  parseSourceUrl,
+  snapshotFilePath,
+  snapshotFormat,
+} from "../_shared/web.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Pages fetched at the same time during a sitemap crawl
+const CONCURRENCY = 3;
+const DEFAULT_MAX_PAGES = 25;
+const MAX_PAGES_LIMIT = 100;
+const DEFAULT_MAX_DEPTH = 2;
+const MAX_DEPTH_LIMIT = 5;
+// Shortest refresh schedule, so a sitemap does not refetch all its pages every run
+const MIN_SYNC_INTERVAL_HOURS = 1;
+
+interface IngestOptions {
+  userId: string;
+  title?: string;
+  embeddingModel: string | null;
+  // Refresh schedule; null when the page is never re-synced
+  syncIntervalHours: number | null;
+}
+
+interface CrawlLimits {
+  maxDepth: number;
+  maxPages: number;
+}
+
+interface IngestResult {
+  url: string;
+  document_id: string | null;
+  status: "queued" | "failed";
+  error: string | null;
+}
+
+// An integer option of the request, given as number or numeric string;
+// `fallback` when it is missing
+const integerOption = (value: unknown, name: string, fallback: number): number => {
+  if (value == null) return fallback;
+  const number = typeof value === "string" && /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isInteger(number)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  return number;
+};
+
+// Fetches the page, stores the snapshot in the documents bucket and creates
+// the document together with its processing job
+const ingestPage = async (supabase: SupabaseClient, url: URL, options: IngestOptions) => {
+  const snapshot = await fetchSnapshot(url);
+  const format = snapshotFormat(snapshot);
+
+  if (!format) {
+    throw new Error(`Unsupported content type: ${snapshot.contentType || "unknown"}`);
+  }
+
+  const filePath = snapshotFilePath(options.userId, snapshot.url, formatExtension(format));
+  const { error: uploadError } = await supabase.storage
+    .from("documents")
+    .upload(filePath, snapshot.data, { contentType: snapshot.contentType || undefined, upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Failed to store snapshot: ${uploadError.message}`);
+  }
+
+  const title =
+    options.title?.trim() || (format === "html" ? htmlTitle(snapshot.data) : undefined) || snapshot.url;
+
+  const { data: document, error: insertError } = await supabase
+    .from("documents")
+    .insert({
+      user_id: options.userId,
+      title,
+      file_path: filePath,
+      file_size: snapshot.data.length,
+      mime_type: snapshot.contentType || null,
+      status: "processing",
+      processing_progress: 0,
+      embedding_model: options.embeddingModel,
+      source_url: snapshot.url,
+      fetched_at: snapshot.fetchedAt,
+      content_hash: await sha256Hex(snapshot.data),
+      sync_interval_hours: options.syncIntervalHours,
+      next_sync_at: options.syncIntervalHours
+        ? new Date(Date.now() + options.syncIntervalHours * 3600 * 1000).toISOString()
+        : null,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !document) {
+    throw new Error(`Failed to create document: ${insertError?.message}`);
+  }
+
+  const { error: jobError } = await supabase
+    .from("processing_jobs")
+    .insert({ document_id: document.id, user_id: options.userId });
+
+  if (jobError) {
+    // Without a job the document would stay 'processing'; as failed it can be retried
+    await supabase
+      .from("documents")
+      .update({ status: "failed", error_message: jobError.message })
+      .eq("id", document.id);
+    throw new Error(`Failed to queue document: ${jobError.message}`);
+  }
+
+  return document.id as string;
+};
+
+// Adds a web page, or every page of a sitemap, as documents of the caller.
+// Each page is stored as a snapshot and goes through the regular processing
+// queue, so it is chunked and embedded like an uploaded file.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+
+    if (!body.url) {
+      throw new Error("url is required");
+    }
+
+    // Invalid crawl limits and embedding models are rejected before anything
+    // is fetched or queued; valid limits are clamped to what a single request
+    // may crawl
+    let limits: CrawlLimits;
+    let embeddingModel: string | null = null;
+    try {
+      if (body.embedding_model != null) {
+        if (typeof body.embedding_model !== "string") throw new Error("embedding_model must be a string");
+        // Throws for unknown or unconfigured models
+        resolveEmbeddingModel(body.embedding_model);
+        embeddingModel = body.embedding_model;
+      }
+      limits = {
+        maxDepth: Math.min(Math.max(integerOption(body.max_depth, "max_depth", DEFAULT_MAX_DEPTH), 0), MAX_DEPTH_LIMIT),
+        maxPages: Math.min(Math.max(integerOption(body.max_pages, "max_pages", DEFAULT_MAX_PAGES), 1), MAX_PAGES_LIMIT),
+      };
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Invalid options" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get("authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(token);
+
+    if (!user) throw new Error("Unauthorized");
+
+    const sourceUrl = parseSourceUrl(body.url);
+    const options: IngestOptions = {
+      userId: user.id,
+      embeddingModel,
+      syncIntervalHours:
+        Number(body.sync_interval_hours) > 0
+          ? Math.max(Math.round(Number(body.sync_interval_hours)), MIN_SYNC_INTERVAL_HOURS)
+          : null,
+    };
+
+    let urls: string[];
+    if (body.mode === "sitemap") {
+      // Without explicit domains only pages on the sitemap's own host are ingested
+      const allowedHosts: string[] =
+        Array.isArray(body.allowed_domains) && body.allowed_domains.length > 0
+          ? body.allowed_domains.map((domain: string) => domain.trim().toLowerCase()).filter(Boolean)
+          : [sourceUrl.hostname];
+
+      urls = await collectSitemapUrls(sourceUrl, { ...limits, allowedHosts });
+      console.log(`Sitemap ${sourceUrl.href} lists ${urls.length} pages to ingest`);
+    } else {
+      urls = [sourceUrl.href];
+      options.title = body.title;
+    }
+
+    const results: IngestResult[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < urls.length) {
+        const url = urls[next++];
+        try {
+          const documentId = await ingestPage(supabase, new URL(url), options);
+          results.push({ url, document_id: documentId, status: "queued", error: null });
+        } catch (error) {
+          console.error(`Failed to ingest ${url}:`, error);
+          results.push({
+            url,
+            document_id: null,
+            status: "failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, urls.length) }, worker));
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in ingest-url function:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
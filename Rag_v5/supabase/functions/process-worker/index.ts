@@ -0,0 +1,179 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isServiceRoleRequest, isUserRequest } from "../_shared/auth.ts";
+import {
+  discardStagedChunks,
+  type FailedChunk,
+  type ProcessingJob,
+  runProcessingSlice,
+} from "../_shared/processing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Time after which the worker stops claiming jobs and starting rounds, well
+// below the edge function limit so the last round can still finish
+const WORKER_BUDGET_MS = 100_000;
+// A job whose lease expires is considered abandoned and claimed again
+const LEASE_SECONDS = 300;
+// Delay before a failed attempt is retried, doubled per attempt
+const RETRY_BASE_SECONDS = 30;
+
+// Queues a job that ran out of time again. Only a slice that stored chunks gets
+// its attempt back; otherwise a document too large for one slice would never
+// use up its attempts.
+const releaseJob = (supabase: SupabaseClient, job: ProcessingJob, refundAttempt: boolean) =>
+  supabase
+    .from("processing_jobs")
+    .update({
+      status: "queued",
+      attempts: refundAttempt ? job.attempts - 1 : job.attempts,
+      worker_id: null,
+      lease_expires_at: null,
+    })
+    .eq("id", job.id);
+
+const completeJob = (supabase: SupabaseClient, job: ProcessingJob) =>
+  supabase
+    .from("processing_jobs")
+    .update({
+      status: "completed",
+      worker_id: null,
+      lease_expires_at: null,
+      last_error: null,
+      chunk_plan: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+// Queues the job for another attempt after a backoff, or fails it and its
+// document once all attempts are used or the failure is not retryable. Staged
+// chunks are kept for a retry, which resumes from the checkpoint.
+const failAttempt = async (
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  error: string,
+  failedChunks: FailedChunk[],
+  retryable = true,
+) => {
+  if (retryable && job.attempts < job.max_attempts) {
+    const delaySeconds = RETRY_BASE_SECONDS * 2 ** (job.attempts - 1);
+    console.warn(`Job ${job.id} attempt ${job.attempts} failed, retrying in ${delaySeconds}s: ${error}`);
+
+    await supabase
+      .from("processing_jobs")
+      .update({
+        status: "queued",
+        worker_id: null,
+        lease_expires_at: null,
+        last_error: error,
+        available_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      })
+      .eq("id", job.id);
+    return;
+  }
+
+  console.error(`Job ${job.id} failed after ${job.attempts} attempt(s): ${error}`);
+  await discardStagedChunks(supabase, job.document_id);
+
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "failed",
+      worker_id: null,
+      lease_expires_at: null,
+      last_error: error,
+      chunk_plan: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  await supabase
+    .from("documents")
+    .update({
+      status: "failed",
+      failed_chunks: failedChunks,
+      error_message: error,
+    })
+    .eq("id", job.document_id);
+};
+
+// Claims queued (or abandoned) processing jobs and works on them until the
+// time budget is used up. Runs on a schedule and is also invoked right after
+// a job is enqueued, so processing starts without waiting for the next run.
+// Only the schedule (service role key) and signed-in users may start a run.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (!isServiceRoleRequest(req) && !(await isUserRequest(supabase, req))) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const workerId = crypto.randomUUID();
+    const deadline = Date.now() + WORKER_BUDGET_MS;
+    const processed: { job_id: string; document_id: string; state: string }[] = [];
+
+    while (Date.now() < deadline) {
+      const { data: job, error: claimError } = await supabase
+        .rpc("claim_processing_job", { p_worker_id: workerId, p_lease_seconds: LEASE_SECONDS })
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to claim job: ${claimError.message}`);
+      }
+      if (!job) break;
+
+      console.log(`Worker ${workerId} claimed job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+      let state: string;
+      try {
+        const outcome = await runProcessingSlice(supabase, job as ProcessingJob, {
+          workerId,
+          deadline,
+          leaseSeconds: LEASE_SECONDS,
+        });
+        state = outcome.state;
+
+        if (outcome.state === "completed") {
+          await completeJob(supabase, job);
+        } else if (outcome.state === "released") {
+          if (outcome.staged || job.attempts < job.max_attempts) {
+            await releaseJob(supabase, job, outcome.staged);
+          } else {
+            await failAttempt(supabase, job, "Processing timed out before any chunks were stored", []);
+          }
+        } else {
+          await failAttempt(supabase, job, outcome.error, outcome.failedChunks, outcome.retryable);
+        }
+      } catch (error) {
+        state = "failed";
+        await failAttempt(supabase, job, error instanceof Error ? error.message : "Unknown error", []);
+      }
+
+      processed.push({ job_id: job.id, document_id: job.document_id, state });
+    }
+
+    return new Response(JSON.stringify({ jobs: processed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in process-worker function:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,19 +1,89 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { resolveConversationContext } from "../_shared/contexts.ts";
+import { embedQueries } from "../_shared/embeddings.ts";
+import {
+  disclaimerMessage,
+  documentInstructions,
+  generalKnowledgeInstructions,
+  type Grounding,
+  refusalMessage,
+} from "../_shared/grounding.ts";
+import { buildConversationHistory, DEFAULT_HISTORY_TOKEN_BUDGET, type HistoryMessage } from "../_shared/history.ts";
+import { detectLanguage, getUserLanguage } from "../_shared/language.ts";
+import { getPrompts } from "../_shared/prompts.ts";
+import { rewriteQuery } from "../_shared/queryRewrite.ts";
+import { candidateCount, rerankChunks } from "../_shared/rerank.ts";
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  fitToContextBudget,
+  groupByEmbeddingModel,
+  hybridSearch,
+  mergeRetrievalResults,
+  resolveRetrievalSettings,
+  RETRIEVAL_SETTINGS_COLUMNS,
+  type RetrievedChunk,
+} from "../_shared/retrieval.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const sseHeaders = {
+  ...corsHeaders,
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// Length of the passage preview returned with each citation
+const SNIPPET_LENGTH = 240;
+
+interface Citation {
+  index: number;
+  chunk_id: string;
+  document_id: string;
+  document_title: string;
+  chunk_index: number | null;
+  page_number: number | null;
+  heading_path: string[];
+  similarity: number;
+  snippet: string;
+}
+
+// The persisted question of the current request, returned with errors too so
+// the client keeps the message it already shows
+interface UserTurn {
+  conversation_id: string;
+  user_message: Record<string, unknown>;
+}
+
+// Completion details of one generated answer, stored in the assistant message metadata
+interface Generation {
+  model: string | null;
+  finish_reason: string | null;
+  usage: Record<string, number> | null;
+}
+
+const encoder = new TextEncoder();
+
+// Encodes one Server-Sent Event. Payloads are tagged with a `type` of
+// "delta", "done" or "error" so the client can dispatch on a single field.
+const sseEvent = (payload: Record<string, unknown>) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let userTurn: UserTurn | null = null;
+
   try {
-    const { message, conversation_id, rag_enabled } = await req.json();
+    const requestStartedAt = new Date();
+    // agent_id, context_id, context_version_id and title only apply when a new conversation is created
+    const { message, conversation_id, rag_enabled, agent_id, context_id, context_version_id, title } = await req.json();
 
     if (!message) {
       throw new Error("Message is required");
@@ -37,53 +107,115 @@ serve(async (req) => {
 
     if (!user) throw new Error("Unauthorized");
 
-    // Get conversation and agent details
-    let systemPrompt = "You are a helpful AI assistant.";
+    // The answer follows the question's language; the profile language is the
+    // fallback when the question is too short to tell
+    const userLanguage = await getUserLanguage(supabase, user.id);
+    const questionLanguage = detectLanguage(message);
+
+    // Get conversation and agent details; null falls back to the default prompt
+    let systemPrompt: string | null = null;
     let ragEnabledForConversation = rag_enabled ?? true;
     let documentIds: string[] = [];
+    let settings = DEFAULT_RETRIEVAL_SETTINGS;
+    // Agent and context versions the answer is produced with, recorded for auditing
+    let agentVersionId: string | null = null;
+    let contextVersionId: string | null = null;
+
+    // Settings of the existing conversation, or of the one this turn will create
+    let conversation = {
+      agent_id: (agent_id as string | undefined) ?? null,
+      context_id: (context_id as string | undefined) ?? null,
+      context_version_id: (context_version_id as string | undefined) ?? null,
+      rag_enabled: ragEnabledForConversation as boolean,
+    };
 
     if (conversation_id) {
-      const { data: conversation } = await supabase
+      const { data: existing } = await supabase
         .from("conversations")
-        .select("agent_id, rag_enabled, context_id")
+        .select("agent_id, rag_enabled, context_id, context_version_id")
         .eq("id", conversation_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!existing) throw new Error("Conversation not found");
+      conversation = existing;
+    } else if (conversation.context_id) {
+      // A new conversation stores the client's context and version, so both
+      // must belong to the caller and the version to that context
+      const { data: context } = await supabase
+        .from("contexts")
+        .select("id")
+        .eq("id", conversation.context_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!context) throw new Error("Context not found");
+
+      if (conversation.context_version_id) {
+        const { data: version } = await supabase
+          .from("context_versions")
+          .select("id")
+          .eq("id", conversation.context_version_id)
+          .eq("context_id", conversation.context_id)
+          .maybeSingle();
+
+        if (!version) throw new Error("Context version not found");
+      }
+    } else {
+      // A version without its context pins nothing
+      conversation.context_version_id = null;
+    }
+
+    ragEnabledForConversation = conversation.rag_enabled;
+
+    // Get agent if specified - agent documents have priority
+    if (conversation.agent_id) {
+      const { data: agent } = await supabase
+        .from("agents")
+        .select(`system_prompt, rag_enabled, document_ids, ${RETRIEVAL_SETTINGS_COLUMNS}`)
+        .eq("id", conversation.agent_id)
+        .eq("user_id", user.id)
         .single();
 
-      if (conversation) {
-        ragEnabledForConversation = conversation.rag_enabled;
-
-        // Get agent if specified - agent documents have priority
-        if (conversation.agent_id) {
-          const { data: agent } = await supabase
-            .from("agents")
-            .select("system_prompt, rag_enabled, document_ids")
-            .eq("id", conversation.agent_id)
-            .single();
-
-          if (agent) {
-            systemPrompt = agent.system_prompt;
-            ragEnabledForConversation = agent.rag_enabled;
-            documentIds = agent.document_ids || [];
-            console.log("Using agent-specific documents:", documentIds);
-          }
-        }
+      if (!agent) {
+        conversation.agent_id = null;
+      } else {
+        systemPrompt = agent.system_prompt;
+        settings = resolveRetrievalSettings(agent);
+        ragEnabledForConversation = agent.rag_enabled;
+        documentIds = agent.document_ids || [];
+        console.log("Using agent-specific documents:", documentIds);
+
+        const { data: agentVersion } = await supabase
+          .from("agent_versions")
+          .select("id")
+          .eq("agent_id", conversation.agent_id)
+          .order("version_number", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        agentVersionId = agentVersion?.id ?? null;
+      }
+    }
 
-        // If no agent documents, use context documents
-        if (documentIds.length === 0 && ragEnabledForConversation && conversation.context_id) {
-          const { data: context } = await supabase
-            .from("contexts")
-            .select("document_ids, system_prompt")
-            .eq("id", conversation.context_id)
-            .single();
-
-          if (context) {
-            if (context.system_prompt) {
-              systemPrompt = context.system_prompt;
-            }
-            documentIds = context.document_ids || [];
-            console.log("Using context documents:", documentIds);
-          }
+    // If no agent documents, use context documents
+    if (documentIds.length === 0 && ragEnabledForConversation && conversation.context_id) {
+      const context = await resolveConversationContext(
+        supabase,
+        user.id,
+        conversation.context_id,
+        conversation.context_version_id,
+      );
+
+      if (!context) {
+        conversation.context_id = null;
+        conversation.context_version_id = null;
+      } else {
+        if (context.system_prompt) {
+          systemPrompt = context.system_prompt;
         }
+        documentIds = context.document_ids;
+        contextVersionId = context.version_id;
+        console.log(`Using context documents (version ${context.version_number}):`, documentIds);
       }
     }
 
@@ -106,93 +238,243 @@ serve(async (req) => {
       }
     }
 
-    // Get conversation history
-    let conversationHistory: any[] = [];
-    if (conversation_id) {
-      const { data: messages } = await supabase
-        .from("messages")
-        .select("role, content")
-        .eq("conversation_id", conversation_id)
-        .order("created_at", { ascending: true })
-        .limit(10);
-
-      conversationHistory = messages || [];
+    // Prompts, refusals and disclaimers are written in the answer's language
+    const language =
+      settings.answer_language === "auto" ? (questionLanguage ?? userLanguage) : settings.answer_language;
+    const prompts = getPrompts(language);
+    systemPrompt = systemPrompt ?? prompts.defaultSystemPrompt;
+
+    // Get conversation history: the most recent turns plus a summary of older
+    // ones. It is built before the question is persisted, so the current turn
+    // is never part of its own history.
+    let conversationHistory: HistoryMessage[] = [];
+    if (conversation_id && settings.history_length > 0) {
+      try {
+        conversationHistory = await buildConversationHistory(supabase, conversation_id, {
+          maxMessages: settings.history_length,
+          maxTokens: DEFAULT_HISTORY_TOKEN_BUDGET,
+          apiKey: Deno.env.get("OPENAI_API_KEY") ?? "",
+        });
+      } catch (historyError) {
+        console.error("History error:", historyError);
+      }
     }
 
-    // If RAG is enabled and we have documents, perform vector search
+    // The question is stored before retrieval and generation, so it is kept
+    // even when no answer can be produced
+    const { data: persistedTurn, error: persistError } = await supabase.rpc("persist_user_message", {
+      p_user_id: user.id,
+      p_conversation_id: conversation_id ?? null,
+      p_new_conversation: {
+        ...conversation,
+        title: title || message.slice(0, 60),
+      },
+      p_content: message,
+    });
+
+    if (persistError) throw new Error(`Failed to save message: ${persistError.message}`);
+    userTurn = persistedTurn as UserTurn;
+    const turnConversationId = userTurn.conversation_id;
+
+    // If RAG is enabled and we have documents, perform hybrid (vector + keyword) search
     let relevantContext = "";
     let hasRelevantDocuments = false;
+    let chunksUsed = 0;
+    let citations: Citation[] = [];
+    let retrievalQueries: string[] = [];
     if (ragEnabledForConversation && documentIds.length > 0) {
       const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
 
       if (OPENAI_API_KEY) {
-        // Generate embedding for the user's message
-        const embeddingResponse = await fetch("https://api.openai.com/v1/embeddings", {
-          method: "POST",
-          headers: {
-            Authorization: "Bearer " + OPENAI_API_KEY.trim(),
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: message,
-          }),
-        });
-
-        if (embeddingResponse.ok) {
-          const embeddingData = await embeddingResponse.json();
-          const embedding = embeddingData.data[0].embedding;
-
-          // Perform vector similarity search
-          console.log("Performing vector search with embedding for documents:", documentIds);
-          const { data: chunks, error: rpcError } = await supabase.rpc("match_document_chunks", {
-            query_embedding: embedding,
-            match_threshold: 0.3,
-            match_count: 5,
-            filter_document_ids: documentIds,
+        let chunks: RetrievedChunk[] = [];
+        try {
+          // Turn follow-ups into standalone queries, plus paraphrases if the agent asks for them
+          const rewritten = await rewriteQuery(message, conversationHistory, {
+            apiKey: OPENAI_API_KEY,
+            paraphrases: settings.query_paraphrases,
           });
+          retrievalQueries = rewritten.queries;
+          console.log("Retrieval queries:", retrievalQueries);
+
+          console.log("Performing hybrid search for documents:", documentIds);
+          const candidates = candidateCount(settings.reranker, settings.top_k, settings.rerank_candidates);
+
+          // Queries are embedded once per model present among the documents
+          const modelGroups = await groupByEmbeddingModel(supabase, documentIds);
+          const resultLists = await Promise.all(
+            [...modelGroups].map(async ([embeddingModel, modelDocumentIds]) => {
+              const embeddings = await embedQueries(retrievalQueries, embeddingModel);
+              return Promise.all(
+                retrievalQueries.map((queryText, i) =>
+                  hybridSearch(supabase, {
+                    queryText,
+                    queryEmbedding: embeddings[i],
+                    documentIds: modelDocumentIds,
+                    embeddingModel,
+                    matchCount: candidates,
+                    matchThreshold: settings.similarity_threshold,
+                    queryLanguage: questionLanguage,
+                    languageMode: settings.language_mode,
+                  }),
+                ),
+              );
+            }),
+          );
+          chunks = mergeRetrievalResults(resultLists.flat(), candidates);
+          chunks = await rerankChunks(settings.reranker, rewritten.standalone, chunks, settings.top_k);
+          chunks = fitToContextBudget(chunks, settings.max_context_tokens);
+        } catch (retrievalError) {
+          console.error("Retrieval error:", retrievalError);
+        }
 
-          if (rpcError) {
-            console.error("RPC error:", rpcError);
-          }
-
-          console.log(`Found ${chunks?.length || 0} matching chunks`);
-
-          if (chunks && chunks.length > 0) {
-            hasRelevantDocuments = true;
-            relevantContext = `\n\nRelevant information from documents:\n${chunks
-              .map((chunk: any) => chunk.content)
-              .join("\n\n")}`;
-            console.log("Using RAG context with", chunks.length, "chunks");
-          } else {
-            console.log("No matching chunks found");
-          }
+        console.log(`Found ${chunks.length} matching chunks`);
+
+        if (chunks.length > 0) {
+          hasRelevantDocuments = true;
+          chunksUsed = chunks.length;
+
+          // Look up document titles so every source can be named in the answer
+          const chunkDocumentIds = [...new Set(chunks.map((chunk) => chunk.document_id))];
+          const { data: sourceDocs } = await supabase
+            .from("documents")
+            .select("id, title")
+            .in("id", chunkDocumentIds);
+          const titles = new Map<string, string>((sourceDocs || []).map((doc: { id: string; title: string }) => [doc.id, doc.title]));
+
+          citations = chunks.map((chunk, i) => ({
+            index: i + 1,
+            chunk_id: chunk.id,
+            document_id: chunk.document_id,
+            document_title: titles.get(chunk.document_id) ?? prompts.unknownDocument,
+            chunk_index: chunk.metadata?.chunk_index ?? null,
+            page_number: chunk.metadata?.page_number ?? null,
+            heading_path: chunk.metadata?.heading_path ?? [],
+            similarity: chunk.similarity,
+            snippet: chunk.content.slice(0, SNIPPET_LENGTH).trim(),
+          }));
+
+          relevantContext = `\n\n${prompts.sourcesHeading}\n${chunks
+            .map((chunk, i) => `${prompts.sourceLabel(citations[i])}\n${chunk.content}`)
+            .join("\n\n")}`;
+          console.log("Using RAG context with", chunks.length, "chunks");
+        } else {
+          console.log("No matching chunks found");
         }
       }
     }
 
-    // Build the final system prompt
+    // Streams the answer produced by `generate` as delta events, then persists
+    // the assistant reply and sends both messages in the "done" event.
+    // Generation and persistence continue if the client disconnects mid-stream.
+    const streamTurn = (
+      ragUsed: boolean,
+      grounding: Grounding,
+      generate: (emit: (content: string) => void) => Promise<Generation>,
+    ) => {
+      let clientConnected = true;
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (payload: Record<string, unknown>) => {
+            if (!clientConnected) return;
+            try {
+              controller.enqueue(sseEvent(payload));
+            } catch {
+              clientConnected = false;
+            }
+          };
+
+          try {
+            let answer = "";
+            const generation = await generate((content) => {
+              answer += content;
+              send({ type: "delta", content });
+            });
+
+            const metadata = {
+              rag_used: ragUsed,
+              grounding,
+              citations,
+              ...generation,
+              chunks_used: chunksUsed,
+              chunk_ids: citations.map((citation) => citation.chunk_id),
+              retrieval_queries: retrievalQueries,
+              reranker: settings.reranker,
+              question_language: questionLanguage,
+              answer_language: language,
+              agent_version_id: agentVersionId,
+              context_version_id: contextVersionId,
+              latency_ms: Date.now() - requestStartedAt.getTime(),
+            };
+
+            const { data: assistantMessage, error: replyError } = await supabase
+              .from("messages")
+              .insert({ conversation_id: turnConversationId, role: "assistant", content: answer, metadata })
+              .select()
+              .single();
+
+            if (replyError) throw new Error(`Failed to save reply: ${replyError.message}`);
+
+            send({
+              type: "done",
+              ...userTurn,
+              assistant_message: assistantMessage,
+              rag_used: ragUsed,
+              grounding,
+              citations,
+              metadata,
+            });
+          } catch (streamError) {
+            console.error("Error while streaming response:", streamError);
+            send({
+              type: "error",
+              error: streamError instanceof Error ? streamError.message : "Unknown error",
+              ...userTurn,
+            });
+          } finally {
+            if (clientConnected) controller.close();
+          }
+        },
+        cancel() {
+          clientConnected = false;
+          console.log("Client disconnected, finishing turn without streaming");
+        },
+      });
+
+      return new Response(stream, { headers: sseHeaders });
+    };
+
+    // Build the final system prompt according to the agent's grounding mode
+    const refusal = refusalMessage(settings.refusal_message, language);
+    let grounding: Grounding = "general";
+    // Text streamed ahead of the model's answer
+    let answerPrefix = "";
     let finalSystemPrompt = "";
     if (ragEnabledForConversation) {
       if (hasRelevantDocuments) {
-        finalSystemPrompt = `${systemPrompt}${relevantContext}\n\nWICHTIG: Beantworte die Frage ausschließlich basierend auf den bereitgestellten Dokumenteninformationen. Wenn die Information nicht in den Dokumenten enthalten ist, antworte mit: "Die angefragte Information ist in den bereitgestellten Dokumenten nicht enthalten."`;
+        grounding = "documents";
+        finalSystemPrompt = `${systemPrompt}${relevantContext}\n\n${documentInstructions(settings.grounding_mode, refusal, language)}`;
       } else if (documentIds.length > 0) {
         // RAG is enabled and documents exist, but no relevant chunks found
-        return new Response(
-          JSON.stringify({
-            response: "Die angefragte Information ist in den bereitgestellten Dokumenten nicht enthalten.",
-            rag_used: true,
-          }),
-          {
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          },
-        );
+        if (settings.grounding_mode === "strict") {
+          return streamTurn(true, "refused", async (emit) => {
+            emit(refusal);
+            return { model: null, finish_reason: null, usage: null };
+          });
+        }
+
+        if (settings.grounding_mode === "disclaimer") {
+          grounding = "disclaimer";
+          answerPrefix = `${disclaimerMessage(language)}\n\n`;
+        }
+        finalSystemPrompt = `${systemPrompt}\n\n${generalKnowledgeInstructions(language)}`;
       } else {
-        finalSystemPrompt = `${systemPrompt}\n\nRAG is enabled but no documents are available.`;
+        finalSystemPrompt = `${systemPrompt}\n\n${prompts.noDocumentsAvailable}`;
       }
     } else {
-      finalSystemPrompt = `${systemPrompt}\n\nRAG is disabled. Answer based on your general knowledge.`;
+      finalSystemPrompt = `${systemPrompt}\n\n${prompts.ragDisabled}`;
     }
+    finalSystemPrompt += `\n\n${prompts.answerLanguage(language)}`;
 
     // Call OpenAI API
     const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
@@ -209,7 +491,7 @@ serve(async (req) => {
       { role: "user", content: message },
     ];
 
-    console.log("Sending request to OpenAI...");
+    console.log("Sending streaming request to OpenAI...");
 
     const response = await fetch("https://api.openai.com/v1/chat/completions", {
       method: "POST",
@@ -218,34 +500,71 @@ serve(async (req) => {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "gpt-4o-mini",
+        model: settings.chat_model,
+        temperature: settings.temperature,
         messages: messages,
+        stream: true,
+        stream_options: { include_usage: true },
       }),
     });
 
-    if (!response.ok) {
+    if (!response.ok || !response.body) {
       const errorText = await response.text();
       console.error("OpenAI API error:", response.status, errorText);
       throw new Error(`OpenAI API error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const assistantMessage = data.choices[0].message.content;
+    const ragUsed = ragEnabledForConversation && relevantContext !== "";
+    const upstream = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    // Re-emit OpenAI's stream as our own delta events
+    return streamTurn(ragUsed, grounding, async (emit) => {
+      if (answerPrefix) emit(answerPrefix);
+
+      let buffer = "";
+      let usage: Record<string, number> | null = null;
+      let finishReason: string | null = null;
+
+      while (true) {
+        const { done, value } = await upstream.read();
+        if (done) break;
 
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") continue;
+
+          const parsed = JSON.parse(data);
+          const choice = parsed.choices?.[0];
+          if (choice?.delta?.content) {
+            emit(choice.delta.content);
+          }
+          if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+          if (parsed.usage) {
+            usage = parsed.usage;
+          }
+        }
+      }
+
+      return { model: settings.chat_model, finish_reason: finishReason, usage };
+    });
+  } catch (error) {
+    console.error("Error in rag-chat function:", error);
     return new Response(
-      JSON.stringify({
-        response: assistantMessage,
-        rag_used: ragEnabledForConversation && relevantContext !== "",
-      }),
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error", ...userTurn }),
       {
+        status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       },
     );
-  } catch (error) {
-    console.error("Error in rag-chat function:", error);
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
   }
 });
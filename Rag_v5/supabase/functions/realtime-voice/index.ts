@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DEFAULT_LANGUAGE, getUserLanguage, type Language } from "../_shared/language.ts";
+import { getPrompts } from "../_shared/prompts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -32,8 +34,11 @@ serve(async (req) => {
     // Get conversation_id and rag_enabled from request body
     const { conversation_id, rag_enabled } = await req.json();
 
+    const prompts = getPrompts(userId ? await getUserLanguage(supabase, userId) : DEFAULT_LANGUAGE);
+
     // Fetch RAG context if enabled
     let ragContext = "";
+    let answerLanguage: Language | "auto" = "auto";
     if (rag_enabled && conversation_id && userId) {
       try {
         // Fetch conversation
@@ -47,13 +52,15 @@ serve(async (req) => {
         if (conversation?.agent_id) {
           const { data: agent } = await supabase
             .from("agents")
-            .select("system_prompt, document_ids")
+            .select("system_prompt, document_ids, answer_language")
             .eq("id", conversation.agent_id)
             .single();
 
           if (agent?.system_prompt) {
-            ragContext += `\n\nAgent Instructions: ${agent.system_prompt}`;
+            ragContext += `\n\n${prompts.agentInstructions(agent.system_prompt)}`;
           }
+
+          answerLanguage = agent?.answer_language ?? answerLanguage;
         }
 
         // Fetch context documents if exists
@@ -65,7 +72,7 @@ serve(async (req) => {
             .single();
 
           if (context?.document_ids && context.document_ids.length > 0) {
-            ragContext += "\n\nRelevant context documents are available for reference.";
+            ragContext += `\n\n${prompts.contextDocumentsAvailable}`;
           }
         }
       } catch (error) {
@@ -81,7 +88,7 @@ serve(async (req) => {
 
     // Create ephemeral token from OpenAI
     console.log("Creating ephemeral session for client...");
-    const systemPrompt = `You are a helpful AI assistant. ${ragContext}`;
+    const systemPrompt = `${prompts.defaultSystemPrompt} ${ragContext}\n\n${prompts.answerLanguage(answerLanguage)}`;
 
     const requestBody = {
       model: "gpt-4o-realtime-preview-2024-12-17",
@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { parseProcessingOptions, type ProcessingOptions } from "../_shared/processing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReprocessResult {
+  document_id: string;
+  status: "queued" | "skipped";
+  error: string | null;
+}
+
+// Queues processing jobs for one or more of the caller's documents, optionally
+// with different chunker settings or embedding model. The worker stages the
+// new chunks and swaps them in atomically, so the old chunks keep serving
+// retrieval until the new ones are complete.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const requestedIds: string[] = body.document_ids ?? (body.document_id ? [body.document_id] : []);
+
+    if (requestedIds.length === 0) {
+      throw new Error("document_id or document_ids is required");
+    }
+
+    // Chunking and embedding overrides. With `reembed` and an
+    // `embedding_model`, a corpus moves to a new model without re-extracting
+    // its files. Invalid values are rejected before anything is queued.
+    let options: ProcessingOptions;
+    try {
+      options = parseProcessingOptions(body);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Invalid options" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get("authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(token);
+
+    if (!user) throw new Error("Unauthorized");
+
+    const { data: documents, error: docsError } = await supabase
+      .from("documents")
+      .select("id, status")
+      .eq("user_id", user.id)
+      .in("id", requestedIds);
+
+    if (docsError) {
+      throw new Error(`Failed to load documents: ${docsError.message}`);
+    }
+
+    const owned = new Map<string, string | null>((documents || []).map((doc) => [doc.id, doc.status]));
+    const results: ReprocessResult[] = [];
+    const queue: string[] = [];
+
+    for (const id of requestedIds) {
+      if (!owned.has(id)) {
+        results.push({ document_id: id, status: "skipped", error: "Document not found" });
+      } else if (owned.get(id) === "processing") {
+        // A second run would stage its chunks next to the running one's
+        results.push({ document_id: id, status: "skipped", error: "Document is already being processed" });
+      } else {
+        queue.push(id);
+      }
+    }
+
+    // Each document gets its job before it is marked as processing, so a
+    // document is never left 'processing' without a job behind it. A job that
+    // cannot be queued, e.g. because a re-sync queued one meanwhile, only
+    // skips its own document.
+    for (const documentId of queue) {
+      const { data: job, error: jobError } = await supabase
+        .from("processing_jobs")
+        .insert({ document_id: documentId, user_id: user.id, options })
+        .select("id")
+        .single();
+
+      if (jobError || !job) {
+        results.push({
+          document_id: documentId,
+          status: "skipped",
+          // Unique violation of processing_jobs_active_document_idx
+          error:
+            jobError?.code === "23505"
+              ? "Document is already being processed"
+              : `Failed to queue document: ${jobError?.message}`,
+        });
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("documents")
+        .update({ status: "processing", processing_progress: 0, error_message: null })
+        .eq("id", documentId);
+
+      if (updateError) {
+        await supabase.from("processing_jobs").delete().eq("id", job.id);
+        results.push({
+          document_id: documentId,
+          status: "skipped",
+          error: `Failed to update document: ${updateError.message}`,
+        });
+        continue;
+      }
+
+      results.push({ document_id: documentId, status: "queued", error: null });
+    }
+
+    const queued = results.filter((result) => result.status === "queued").length;
+    console.log(`Queued ${queued} of ${requestedIds.length} requested documents`);
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in reprocess-document function:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
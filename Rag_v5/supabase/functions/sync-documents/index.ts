@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { formatExtension } from "../_shared/extraction.ts";
+import { sha256Hex } from "../_shared/hash.ts";
+import type { ProcessingOptions } from "../_shared/processing.ts";
+import { fetchSnapshot, parseSourceUrl, snapshotFilePath, snapshotFormat } from "../_shared/web.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Time after which no further documents are claimed
+const SYNC_BUDGET_MS = 100_000;
+// Documents claimed per round
+const BATCH_SIZE = 10;
+// Sources fetched at the same time
+const CONCURRENCY = 3;
+
+interface SyncDocument {
+  id: string;
+  user_id: string;
+  source_url: string;
+  file_path: string;
+  content_hash: string | null;
+}
+
+interface SyncResult {
+  document_id: string;
+  status: "unchanged" | "queued" | "failed";
+  error: string | null;
+}
+
+// The chunker settings the document's live chunks were made with, so the
+// re-synced text is split the same way and unchanged chunks keep their embedding
+const currentChunkerOptions = async (supabase: SupabaseClient, documentId: string): Promise<ProcessingOptions> => {
+  const { data: chunk } = await supabase
+    .from("document_chunks")
+    .select("metadata")
+    .eq("document_id", documentId)
+    .eq("staged", false)
+    .limit(1)
+    .maybeSingle();
+
+  const metadata = chunk?.metadata ?? {};
+  return {
+    ...(metadata.chunker && { chunker: metadata.chunker }),
+    ...(metadata.chunk_size && { chunk_size: metadata.chunk_size }),
+    ...(metadata.chunk_overlap !== undefined && { chunk_overlap: metadata.chunk_overlap }),
+  };
+};
+
+// Fetches the document's source again. An unchanged snapshot only records the
+// sync; a changed one replaces the stored snapshot and queues processing.
+const syncDocument = async (supabase: SupabaseClient, document: SyncDocument): Promise<SyncResult["status"]> => {
+  const snapshot = await fetchSnapshot(parseSourceUrl(document.source_url));
+  const contentHash = await sha256Hex(snapshot.data);
+  const syncedAt = new Date().toISOString();
+
+  if (contentHash === document.content_hash) {
+    await supabase
+      .from("documents")
+      .update({ last_synced_at: syncedAt, last_sync_error: null })
+      .eq("id", document.id);
+    return "unchanged";
+  }
+
+  const format = snapshotFormat(snapshot);
+
+  if (!format) {
+    throw new Error(`Unsupported content type: ${snapshot.contentType || "unknown"}`);
+  }
+
+  const filePath = snapshotFilePath(document.user_id, snapshot.url, formatExtension(format));
+  const { error: uploadError } = await supabase.storage
+    .from("documents")
+    .upload(filePath, snapshot.data, { contentType: snapshot.contentType || undefined, upsert: false });
+
+  if (uploadError) {
+    throw new Error(`Failed to store snapshot: ${uploadError.message}`);
+  }
+
+  const options = await currentChunkerOptions(supabase, document.id);
+
+  // The job comes first, so the document is never 'processing' without one.
+  // The live chunks keep serving retrieval until the new ones are committed.
+  const { data: job, error: jobError } = await supabase
+    .from("processing_jobs")
+    .insert({ document_id: document.id, user_id: document.user_id, options })
+    .select("id")
+    .single();
+
+  if (jobError || !job) {
+    await supabase.storage.from("documents").remove([filePath]);
+    throw new Error(`Failed to queue document: ${jobError?.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({
+      file_path: filePath,
+      file_size: snapshot.data.length,
+      mime_type: snapshot.contentType || null,
+      fetched_at: snapshot.fetchedAt,
+      content_hash: contentHash,
+      last_synced_at: syncedAt,
+      last_sync_error: null,
+      status: "processing",
+      processing_progress: 0,
+      error_message: null,
+    })
+    .eq("id", document.id);
+
+  if (updateError) {
+    await supabase.from("processing_jobs").delete().eq("id", job.id);
+    await supabase.storage.from("documents").remove([filePath]);
+    throw new Error(`Failed to update document: ${updateError.message}`);
+  }
+
+  await supabase.storage.from("documents").remove([document.file_path]);
+  return "queued";
+};
+
+// Re-syncs documents whose refresh schedule is due. Runs on a schedule; the
+// process-worker picks up the queued jobs of changed documents on its next run.
+// Only the schedule may call it, with the service role key.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const deadline = Date.now() + SYNC_BUDGET_MS;
+    const results: SyncResult[] = [];
+
+    while (Date.now() < deadline) {
+      const { data: documents, error: claimError } = await supabase.rpc("claim_document_syncs", {
+        p_limit: BATCH_SIZE,
+      });
+
+      if (claimError) {
+        throw new Error(`Failed to claim documents: ${claimError.message}`);
+      }
+      if (!documents || documents.length === 0) break;
+
+      const batch = documents as SyncDocument[];
+      let next = 0;
+      const worker = async () => {
+        while (next < batch.length) {
+          const document = batch[next++];
+          try {
+            const status = await syncDocument(supabase, document);
+            console.log(`Synced document ${document.id}: ${status}`);
+            results.push({ document_id: document.id, status, error: null });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`Failed to sync document ${document.id}:`, message);
+            // The document keeps its current chunks and is tried again at its next scheduled sync
+            await supabase.from("documents").update({ last_sync_error: message }).eq("id", document.id);
+            results.push({ document_id: document.id, status: "failed", error: message });
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(CONCURRENCY, batch.length) }, worker));
+    }
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in sync-documents function:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
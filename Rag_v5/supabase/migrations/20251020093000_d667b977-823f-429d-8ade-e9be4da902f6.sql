@@ -0,0 +1,38 @@
+-- Return chunk metadata from match_document_chunks so answers can cite their sources.
+-- The return type changes, so the old function has to be dropped first.
+DROP FUNCTION IF EXISTS public.match_document_chunks(vector, double precision, integer, uuid[]);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding vector,
+  match_threshold double precision,
+  match_count integer,
+  filter_document_ids uuid[]
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity double precision
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.content,
+    document_chunks.metadata,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  WHERE
+    document_chunks.document_id = ANY(filter_document_ids)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Track chunks that could not be embedded so partially ingested documents are never marked completed
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS chunk_count INTEGER,
+  ADD COLUMN IF NOT EXISTS failed_chunks JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,81 @@
+-- Full-text search column covering both German and English stemming
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS fts tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('german', content) || to_tsvector('english', content)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_fts_idx ON public.document_chunks USING GIN (fts);
+
+-- Hybrid retrieval: fuses vector similarity and full-text ranking with reciprocal rank fusion.
+-- Each side contributes 1 / (rrf_k + rank), so a chunk found by both searches ranks highest
+-- while exact keyword hits (part numbers, acronyms) still surface when embeddings miss them.
+CREATE OR REPLACE FUNCTION public.hybrid_match_document_chunks(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_document_ids uuid[],
+  match_threshold double precision DEFAULT 0.3,
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH keyword_query AS (
+    -- Match any query term rather than all of them; ranking rewards chunks matching more terms
+    SELECT
+      replace(plainto_tsquery('german', query_text)::text, ' & ', ' | ')::tsquery
+      || replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')::tsquery AS q
+  ),
+  vector_matches AS (
+    SELECT
+      dc.id,
+      row_number() OVER (ORDER BY dc.embedding <=> query_embedding) AS rank_ix
+    FROM document_chunks dc
+    WHERE
+      dc.document_id = ANY(filter_document_ids)
+      AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    ORDER BY dc.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_matches AS (
+    SELECT
+      dc.id,
+      row_number() OVER (ORDER BY ts_rank_cd(dc.fts, kq.q, 1) DESC) AS rank_ix
+    FROM document_chunks dc, keyword_query kq
+    WHERE
+      dc.document_id = ANY(filter_document_ids)
+      AND dc.fts @@ kq.q
+    ORDER BY ts_rank_cd(dc.fts, kq.q, 1) DESC
+    LIMIT candidate_count
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.metadata,
+    (1 - (dc.embedding <=> query_embedding))::double precision AS similarity,
+    ts_rank_cd(dc.fts, kq.q, 1)::double precision AS keyword_rank,
+    (
+      COALESCE(1.0 / (rrf_k + v.rank_ix), 0.0)
+      + COALESCE(1.0 / (rrf_k + k.rank_ix), 0.0)
+    )::double precision AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN document_chunks dc ON dc.id = COALESCE(v.id, k.id)
+  CROSS JOIN keyword_query kq
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,15 @@
+-- Per-agent retrieval and generation settings. Defaults match the values rag-chat used to hard-code.
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS top_k INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS similarity_threshold DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+  ADD COLUMN IF NOT EXISTS max_context_tokens INTEGER NOT NULL DEFAULT 3000,
+  ADD COLUMN IF NOT EXISTS history_length INTEGER NOT NULL DEFAULT 10,
+  ADD COLUMN IF NOT EXISTS chat_model TEXT NOT NULL DEFAULT 'gpt-4o-mini',
+  ADD COLUMN IF NOT EXISTS temperature DOUBLE PRECISION NOT NULL DEFAULT 0.7;
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_top_k_check CHECK (top_k BETWEEN 1 AND 50),
+  ADD CONSTRAINT agents_similarity_threshold_check CHECK (similarity_threshold BETWEEN 0 AND 1),
+  ADD CONSTRAINT agents_max_context_tokens_check CHECK (max_context_tokens BETWEEN 200 AND 100000),
+  ADD CONSTRAINT agents_history_length_check CHECK (history_length BETWEEN 0 AND 100),
+  ADD CONSTRAINT agents_temperature_check CHECK (temperature BETWEEN 0 AND 2);
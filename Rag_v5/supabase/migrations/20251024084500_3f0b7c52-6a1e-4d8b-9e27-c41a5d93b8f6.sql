@@ -0,0 +1,52 @@
+-- Snapshot every change to a context into context_versions so answers can be
+-- traced back to the knowledge configuration that produced them.
+
+ALTER TABLE public.context_versions
+  ADD CONSTRAINT context_versions_context_id_version_number_key UNIQUE (context_id, version_number);
+
+-- Runs as SECURITY DEFINER because context_versions is read-only for users
+CREATE OR REPLACE FUNCTION public.snapshot_context_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only versioned fields create a new version; touching updated_at alone does not
+  IF TG_OP = 'UPDATE'
+    AND NEW.name IS NOT DISTINCT FROM OLD.name
+    AND NEW.description IS NOT DISTINCT FROM OLD.description
+    AND NEW.document_ids IS NOT DISTINCT FROM OLD.document_ids
+    AND NEW.system_prompt IS NOT DISTINCT FROM OLD.system_prompt
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.context_versions (context_id, version_number, name, description, document_ids, system_prompt, created_by)
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name,
+    NEW.description,
+    NEW.document_ids,
+    NEW.system_prompt,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.context_versions
+  WHERE context_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_context_version
+  AFTER INSERT OR UPDATE ON public.contexts
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_context_version();
+
+-- Existing contexts start their history at version 1
+INSERT INTO public.context_versions (context_id, version_number, name, description, document_ids, system_prompt, created_by)
+SELECT c.id, 1, c.name, c.description, c.document_ids, c.system_prompt, c.user_id
+FROM public.contexts c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.context_versions v WHERE v.context_id = c.id
+);
+
+-- A conversation pinned to a version keeps using it after the context changes;
+-- NULL means it follows the latest version
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS context_version_id UUID REFERENCES public.context_versions(id) ON DELETE SET NULL;
@@ -0,0 +1,80 @@
+-- Snapshot every change to an agent so regressions in its answers can be
+-- traced back to the configuration that produced them.
+CREATE TABLE public.agent_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  system_prompt TEXT NOT NULL,
+  rag_enabled BOOLEAN NOT NULL,
+  document_ids UUID[],
+  top_k INTEGER NOT NULL,
+  similarity_threshold DOUBLE PRECISION NOT NULL,
+  max_context_tokens INTEGER NOT NULL,
+  history_length INTEGER NOT NULL,
+  chat_model TEXT NOT NULL,
+  temperature DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  UNIQUE (agent_id, version_number)
+);
+
+ALTER TABLE public.agent_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the trigger only
+CREATE POLICY "Users can view versions of their agents"
+  ON public.agent_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.agents
+      WHERE agents.id = agent_versions.agent_id
+      AND agents.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.snapshot_agent_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+         NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length,
+         NEW.chat_model, NEW.temperature)
+      IS NOT DISTINCT FROM
+        (OLD.name, OLD.description, OLD.system_prompt, OLD.rag_enabled, OLD.document_ids,
+         OLD.top_k, OLD.similarity_threshold, OLD.max_context_tokens, OLD.history_length,
+         OLD.chat_model, OLD.temperature)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.agent_versions (
+    agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+    top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+    NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length, NEW.chat_model, NEW.temperature,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.agent_versions
+  WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_agent_version
+  AFTER INSERT OR UPDATE ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_agent_version();
+
+-- Existing agents start their history at version 1
+INSERT INTO public.agent_versions (
+  agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+  top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature, created_by
+)
+SELECT
+  a.id, 1, a.name, a.description, a.system_prompt, a.rag_enabled, a.document_ids,
+  a.top_k, a.similarity_threshold, a.max_context_tokens, a.history_length, a.chat_model, a.temperature, a.user_id
+FROM public.agents a;
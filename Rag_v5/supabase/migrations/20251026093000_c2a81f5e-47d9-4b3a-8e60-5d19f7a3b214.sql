@@ -0,0 +1,63 @@
+-- Persists one chat turn for rag-chat in a single transaction: creates the
+-- conversation when needed and inserts the user and assistant messages
+-- together, so a failed generation never leaves an unanswered user message.
+CREATE OR REPLACE FUNCTION public.persist_chat_turn(
+  p_user_id UUID,
+  p_conversation_id UUID,
+  p_new_conversation JSONB,
+  p_user_content TEXT,
+  p_user_created_at TIMESTAMP WITH TIME ZONE,
+  p_assistant_content TEXT,
+  p_assistant_metadata JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_conversation_id UUID := p_conversation_id;
+  user_message public.messages;
+  assistant_message public.messages;
+BEGIN
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO public.conversations (user_id, title, agent_id, context_id, context_version_id, rag_enabled)
+    VALUES (
+      p_user_id,
+      p_new_conversation->>'title',
+      (p_new_conversation->>'agent_id')::UUID,
+      (p_new_conversation->>'context_id')::UUID,
+      (p_new_conversation->>'context_version_id')::UUID,
+      COALESCE((p_new_conversation->>'rag_enabled')::BOOLEAN, true)
+    )
+    RETURNING id INTO v_conversation_id;
+  ELSE
+    -- Bumps updated_at so the conversation list shows recent chats first
+    UPDATE public.conversations
+    SET updated_at = now()
+    WHERE id = v_conversation_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Conversation % not found', v_conversation_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, role, content, created_at)
+  VALUES (v_conversation_id, 'user', p_user_content, p_user_created_at)
+  RETURNING * INTO user_message;
+
+  INSERT INTO public.messages (conversation_id, role, content, metadata, created_at)
+  VALUES (v_conversation_id, 'assistant', p_assistant_content, p_assistant_metadata, clock_timestamp())
+  RETURNING * INTO assistant_message;
+
+  RETURN jsonb_build_object(
+    'conversation_id', v_conversation_id,
+    'user_message', to_jsonb(user_message),
+    'assistant_message', to_jsonb(assistant_message)
+  );
+END;
+$$;
+
+-- Takes the user id as an argument, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.persist_chat_turn(UUID, UUID, JSONB, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, JSONB)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.persist_chat_turn(UUID, UUID, JSONB, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, JSONB)
+  TO service_role;
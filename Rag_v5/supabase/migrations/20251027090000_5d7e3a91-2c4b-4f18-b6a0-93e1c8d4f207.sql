@@ -0,0 +1,6 @@
+-- Rolling summary of the messages that no longer fit into rag-chat's recent
+-- history window. history_summary_until is the created_at of the newest
+-- message folded into the summary.
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS history_summary TEXT,
+  ADD COLUMN IF NOT EXISTS history_summary_until TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,44 @@
+-- Number of paraphrased queries rag-chat retrieves with in addition to the
+-- condensed standalone query. 0 disables multi-query retrieval.
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS query_paraphrases INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_query_paraphrases_check CHECK (query_paraphrases BETWEEN 0 AND 5);
+
+ALTER TABLE public.agent_versions
+  ADD COLUMN IF NOT EXISTS query_paraphrases INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.snapshot_agent_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+         NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length,
+         NEW.chat_model, NEW.temperature, NEW.query_paraphrases)
+      IS NOT DISTINCT FROM
+        (OLD.name, OLD.description, OLD.system_prompt, OLD.rag_enabled, OLD.document_ids,
+         OLD.top_k, OLD.similarity_threshold, OLD.max_context_tokens, OLD.history_length,
+         OLD.chat_model, OLD.temperature, OLD.query_paraphrases)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.agent_versions (
+    agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+    top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature,
+    query_paraphrases, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+    NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length, NEW.chat_model, NEW.temperature,
+    NEW.query_paraphrases,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.agent_versions
+  WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
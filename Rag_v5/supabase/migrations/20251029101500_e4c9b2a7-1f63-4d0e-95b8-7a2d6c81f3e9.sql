@@ -0,0 +1,47 @@
+-- Optional reranking stage: retrieve rerank_candidates chunks, rerank them
+-- with the chosen reranker and keep the best top_k.
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS reranker TEXT NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS rerank_candidates INTEGER NOT NULL DEFAULT 20;
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_reranker_check CHECK (reranker IN ('none', 'llm', 'http')),
+  ADD CONSTRAINT agents_rerank_candidates_check CHECK (rerank_candidates BETWEEN 5 AND 100);
+
+ALTER TABLE public.agent_versions
+  ADD COLUMN IF NOT EXISTS reranker TEXT NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS rerank_candidates INTEGER NOT NULL DEFAULT 20;
+
+CREATE OR REPLACE FUNCTION public.snapshot_agent_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+         NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length,
+         NEW.chat_model, NEW.temperature, NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates)
+      IS NOT DISTINCT FROM
+        (OLD.name, OLD.description, OLD.system_prompt, OLD.rag_enabled, OLD.document_ids,
+         OLD.top_k, OLD.similarity_threshold, OLD.max_context_tokens, OLD.history_length,
+         OLD.chat_model, OLD.temperature, OLD.query_paraphrases, OLD.reranker, OLD.rerank_candidates)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.agent_versions (
+    agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+    top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature,
+    query_paraphrases, reranker, rerank_candidates, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+    NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length, NEW.chat_model, NEW.temperature,
+    NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.agent_versions
+  WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,50 @@
+-- Per-agent grounding: what rag-chat does when no chunk passes the threshold.
+-- strict refuses, disclaimer answers from general knowledge with a notice,
+-- fallback answers from general knowledge silently. refusal_message overrides
+-- the localized default refusal text.
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS grounding_mode TEXT NOT NULL DEFAULT 'strict',
+  ADD COLUMN IF NOT EXISTS refusal_message TEXT;
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_grounding_mode_check CHECK (grounding_mode IN ('strict', 'disclaimer', 'fallback'));
+
+ALTER TABLE public.agent_versions
+  ADD COLUMN IF NOT EXISTS grounding_mode TEXT NOT NULL DEFAULT 'strict',
+  ADD COLUMN IF NOT EXISTS refusal_message TEXT;
+
+CREATE OR REPLACE FUNCTION public.snapshot_agent_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+         NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length,
+         NEW.chat_model, NEW.temperature, NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates,
+         NEW.grounding_mode, NEW.refusal_message)
+      IS NOT DISTINCT FROM
+        (OLD.name, OLD.description, OLD.system_prompt, OLD.rag_enabled, OLD.document_ids,
+         OLD.top_k, OLD.similarity_threshold, OLD.max_context_tokens, OLD.history_length,
+         OLD.chat_model, OLD.temperature, OLD.query_paraphrases, OLD.reranker, OLD.rerank_candidates,
+         OLD.grounding_mode, OLD.refusal_message)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.agent_versions (
+    agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+    top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature,
+    query_paraphrases, reranker, rerank_candidates, grounding_mode, refusal_message, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+    NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length, NEW.chat_model, NEW.temperature,
+    NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates, NEW.grounding_mode, NEW.refusal_message,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.agent_versions
+  WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,22 @@
+-- Per-user language for the UI and for prompts, refusals and disclaimers
+-- generated by the edge functions.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'de';
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_language_check CHECK (language IN ('de', 'en'));
+
+-- Take the language chosen on the sign-up page
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, language)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    CASE WHEN NEW.raw_user_meta_data->>'language' = 'en' THEN 'en' ELSE 'de' END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
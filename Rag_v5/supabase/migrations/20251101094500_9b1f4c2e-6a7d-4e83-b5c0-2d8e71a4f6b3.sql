@@ -0,0 +1,155 @@
+-- Detected document and chunk languages ('de' / 'en', NULL when undetermined)
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- Per-agent language handling. language_mode controls whether retrieval prefers
+-- (boost) or only returns (filter) chunks in the question's language;
+-- answer_language 'auto' answers in the question's language, 'de' / 'en' force one.
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS language_mode TEXT NOT NULL DEFAULT 'off',
+  ADD COLUMN IF NOT EXISTS answer_language TEXT NOT NULL DEFAULT 'auto';
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_language_mode_check CHECK (language_mode IN ('off', 'boost', 'filter')),
+  ADD CONSTRAINT agents_answer_language_check CHECK (answer_language IN ('auto', 'de', 'en'));
+
+ALTER TABLE public.agent_versions
+  ADD COLUMN IF NOT EXISTS language_mode TEXT NOT NULL DEFAULT 'off',
+  ADD COLUMN IF NOT EXISTS answer_language TEXT NOT NULL DEFAULT 'auto';
+
+CREATE OR REPLACE FUNCTION public.snapshot_agent_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+         NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length,
+         NEW.chat_model, NEW.temperature, NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates,
+         NEW.grounding_mode, NEW.refusal_message, NEW.language_mode, NEW.answer_language)
+      IS NOT DISTINCT FROM
+        (OLD.name, OLD.description, OLD.system_prompt, OLD.rag_enabled, OLD.document_ids,
+         OLD.top_k, OLD.similarity_threshold, OLD.max_context_tokens, OLD.history_length,
+         OLD.chat_model, OLD.temperature, OLD.query_paraphrases, OLD.reranker, OLD.rerank_candidates,
+         OLD.grounding_mode, OLD.refusal_message, OLD.language_mode, OLD.answer_language)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.agent_versions (
+    agent_id, version_number, name, description, system_prompt, rag_enabled, document_ids,
+    top_k, similarity_threshold, max_context_tokens, history_length, chat_model, temperature,
+    query_paraphrases, reranker, rerank_candidates, grounding_mode, refusal_message,
+    language_mode, answer_language, created_by
+  )
+  SELECT
+    NEW.id,
+    COALESCE(MAX(version_number), 0) + 1,
+    NEW.name, NEW.description, NEW.system_prompt, NEW.rag_enabled, NEW.document_ids,
+    NEW.top_k, NEW.similarity_threshold, NEW.max_context_tokens, NEW.history_length, NEW.chat_model, NEW.temperature,
+    NEW.query_paraphrases, NEW.reranker, NEW.rerank_candidates, NEW.grounding_mode, NEW.refusal_message,
+    NEW.language_mode, NEW.answer_language,
+    COALESCE(auth.uid(), NEW.user_id)
+  FROM public.agent_versions
+  WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signature changes, so the previous overload is dropped rather than replaced
+DROP FUNCTION IF EXISTS public.hybrid_match_document_chunks(text, vector, integer, uuid[], double precision, integer, integer);
+
+-- Hybrid retrieval with an optional language preference. With 'filter', chunks in
+-- another language are excluded; with 'boost', the fused score of chunks in the
+-- query language is raised by language_boost. Chunks without a detected language
+-- are never filtered out, and a NULL query_language disables both.
+CREATE OR REPLACE FUNCTION public.hybrid_match_document_chunks(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_document_ids uuid[],
+  match_threshold double precision DEFAULT 0.3,
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60,
+  query_language text DEFAULT NULL,
+  language_mode text DEFAULT 'off',
+  language_boost double precision DEFAULT 0.25
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  language text,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH keyword_query AS (
+    -- Match any query term rather than all of them; ranking rewards chunks matching more terms
+    SELECT
+      replace(plainto_tsquery('german', query_text)::text, ' & ', ' | ')::tsquery
+      || replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')::tsquery AS q
+  ),
+  candidate_chunks AS (
+    SELECT dc.*
+    FROM document_chunks dc
+    WHERE
+      dc.document_id = ANY(filter_document_ids)
+      AND (
+        language_mode <> 'filter'
+        OR query_language IS NULL
+        OR dc.language IS NULL
+        OR dc.language = query_language
+      )
+  ),
+  vector_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY cc.embedding <=> query_embedding) AS rank_ix
+    FROM candidate_chunks cc
+    WHERE 1 - (cc.embedding <=> query_embedding) > match_threshold
+    ORDER BY cc.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC) AS rank_ix
+    FROM candidate_chunks cc, keyword_query kq
+    WHERE cc.fts @@ kq.q
+    ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC
+    LIMIT candidate_count
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.metadata,
+    dc.language,
+    (1 - (dc.embedding <=> query_embedding))::double precision AS similarity,
+    ts_rank_cd(dc.fts, kq.q, 1)::double precision AS keyword_rank,
+    (
+      (
+        COALESCE(1.0 / (rrf_k + v.rank_ix), 0.0)
+        + COALESCE(1.0 / (rrf_k + k.rank_ix), 0.0)
+      )
+      * CASE
+          WHEN language_mode = 'boost' AND dc.language = query_language THEN 1.0 + language_boost
+          ELSE 1.0
+        END
+    )::double precision AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN document_chunks dc ON dc.id = COALESCE(v.id, k.id)
+  CROSS JOIN keyword_query kq
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
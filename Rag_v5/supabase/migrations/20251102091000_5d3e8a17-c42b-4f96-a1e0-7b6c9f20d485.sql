@@ -0,0 +1,141 @@
+-- Re-processing writes the new chunks of a document as staged rows next to the
+-- live ones. Staged chunks are invisible to retrieval until commit_document_chunks
+-- swaps them in, so a document never serves a mix of old and new chunks and a
+-- failed run leaves the previous chunks untouched.
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS staged BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_staged_idx
+  ON public.document_chunks (document_id, staged);
+
+-- Replaces the live chunks of a document with its staged ones and marks the
+-- document completed, all in one transaction. Returns the new chunk count.
+CREATE OR REPLACE FUNCTION public.commit_document_chunks(p_document_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_chunk_count INTEGER;
+BEGIN
+  -- Serializes concurrent commits for the same document
+  PERFORM 1 FROM public.documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  DELETE FROM public.document_chunks
+  WHERE document_id = p_document_id AND NOT staged;
+
+  UPDATE public.document_chunks
+  SET staged = false
+  WHERE document_id = p_document_id AND staged;
+
+  GET DIAGNOSTICS v_chunk_count = ROW_COUNT;
+
+  UPDATE public.documents
+  SET
+    status = 'completed',
+    processing_progress = 100,
+    chunk_count = v_chunk_count,
+    failed_chunks = '[]'::jsonb,
+    error_message = NULL
+  WHERE id = p_document_id;
+
+  RETURN v_chunk_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_document_chunks(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_document_chunks(UUID) TO service_role;
+
+-- Staged chunks are excluded from hybrid retrieval
+CREATE OR REPLACE FUNCTION public.hybrid_match_document_chunks(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_document_ids uuid[],
+  match_threshold double precision DEFAULT 0.3,
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60,
+  query_language text DEFAULT NULL,
+  language_mode text DEFAULT 'off',
+  language_boost double precision DEFAULT 0.25
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  language text,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH keyword_query AS (
+    -- Match any query term rather than all of them; ranking rewards chunks matching more terms
+    SELECT
+      replace(plainto_tsquery('german', query_text)::text, ' & ', ' | ')::tsquery
+      || replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')::tsquery AS q
+  ),
+  candidate_chunks AS (
+    SELECT dc.*
+    FROM document_chunks dc
+    WHERE
+      dc.document_id = ANY(filter_document_ids)
+      AND NOT dc.staged
+      AND (
+        language_mode <> 'filter'
+        OR query_language IS NULL
+        OR dc.language IS NULL
+        OR dc.language = query_language
+      )
+  ),
+  vector_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY cc.embedding <=> query_embedding) AS rank_ix
+    FROM candidate_chunks cc
+    WHERE 1 - (cc.embedding <=> query_embedding) > match_threshold
+    ORDER BY cc.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC) AS rank_ix
+    FROM candidate_chunks cc, keyword_query kq
+    WHERE cc.fts @@ kq.q
+    ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC
+    LIMIT candidate_count
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.metadata,
+    dc.language,
+    (1 - (dc.embedding <=> query_embedding))::double precision AS similarity,
+    ts_rank_cd(dc.fts, kq.q, 1)::double precision AS keyword_rank,
+    (
+      (
+        COALESCE(1.0 / (rrf_k + v.rank_ix), 0.0)
+        + COALESCE(1.0 / (rrf_k + k.rank_ix), 0.0)
+      )
+      * CASE
+          WHEN language_mode = 'boost' AND dc.language = query_language THEN 1.0 + language_boost
+          ELSE 1.0
+        END
+    )::double precision AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN document_chunks dc ON dc.id = COALESCE(v.id, k.id)
+  CROSS JOIN keyword_query kq
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
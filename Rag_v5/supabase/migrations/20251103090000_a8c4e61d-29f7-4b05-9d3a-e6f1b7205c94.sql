@@ -0,0 +1,165 @@
+-- Embeddings can come from different models (OpenAI, an on-prem
+-- OpenAI-compatible server, a deterministic test embedder). Every chunk records
+-- the model that produced its vector, and the embedding column no longer fixes
+-- the dimensions so models of any size can be stored side by side.
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small';
+
+ALTER TABLE public.document_chunks
+  ALTER COLUMN embedding_model DROP DEFAULT;
+
+-- Model of the document's live chunks; set on upload to pick the model for processing
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+UPDATE public.documents d
+SET embedding_model = 'text-embedding-3-small'
+WHERE EXISTS (SELECT 1 FROM public.document_chunks dc WHERE dc.document_id = d.id);
+
+-- An ivfflat index needs fixed dimensions, so it cannot span several models
+DROP INDEX IF EXISTS public.document_chunks_embedding_idx;
+
+ALTER TABLE public.document_chunks
+  ALTER COLUMN embedding TYPE vector;
+
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_embedding_model_idx
+  ON public.document_chunks (document_id, embedding_model);
+
+-- Also records the model of the swapped-in chunks on the document
+CREATE OR REPLACE FUNCTION public.commit_document_chunks(p_document_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_chunk_count INTEGER;
+BEGIN
+  -- Serializes concurrent commits for the same document
+  PERFORM 1 FROM public.documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  DELETE FROM public.document_chunks
+  WHERE document_id = p_document_id AND NOT staged;
+
+  UPDATE public.document_chunks
+  SET staged = false
+  WHERE document_id = p_document_id AND staged;
+
+  GET DIAGNOSTICS v_chunk_count = ROW_COUNT;
+
+  UPDATE public.documents
+  SET
+    status = 'completed',
+    processing_progress = 100,
+    chunk_count = v_chunk_count,
+    failed_chunks = '[]'::jsonb,
+    error_message = NULL,
+    embedding_model = COALESCE(
+      (SELECT embedding_model FROM public.document_chunks WHERE document_id = p_document_id LIMIT 1),
+      embedding_model
+    )
+  WHERE id = p_document_id;
+
+  RETURN v_chunk_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.hybrid_match_document_chunks(
+  text, vector, integer, uuid[], double precision, integer, integer, text, text, double precision
+);
+
+-- Only compares the query with chunks embedded by the same model
+CREATE OR REPLACE FUNCTION public.hybrid_match_document_chunks(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_document_ids uuid[],
+  match_threshold double precision DEFAULT 0.3,
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60,
+  query_language text DEFAULT NULL,
+  language_mode text DEFAULT 'off',
+  language_boost double precision DEFAULT 0.25,
+  query_embedding_model text DEFAULT 'text-embedding-3-small'
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  language text,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH keyword_query AS (
+    -- Match any query term rather than all of them; ranking rewards chunks matching more terms
+    SELECT
+      replace(plainto_tsquery('german', query_text)::text, ' & ', ' | ')::tsquery
+      || replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')::tsquery AS q
+  ),
+  candidate_chunks AS (
+    SELECT dc.*
+    FROM document_chunks dc
+    WHERE
+      dc.document_id = ANY(filter_document_ids)
+      AND NOT dc.staged
+      -- Vectors of different models are not comparable and may differ in dimensions
+      AND dc.embedding_model = query_embedding_model
+      AND (
+        language_mode <> 'filter'
+        OR query_language IS NULL
+        OR dc.language IS NULL
+        OR dc.language = query_language
+      )
+  ),
+  vector_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY cc.embedding <=> query_embedding) AS rank_ix
+    FROM candidate_chunks cc
+    WHERE 1 - (cc.embedding <=> query_embedding) > match_threshold
+    ORDER BY cc.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_matches AS (
+    SELECT
+      cc.id,
+      row_number() OVER (ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC) AS rank_ix
+    FROM candidate_chunks cc, keyword_query kq
+    WHERE cc.fts @@ kq.q
+    ORDER BY ts_rank_cd(cc.fts, kq.q, 1) DESC
+    LIMIT candidate_count
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.metadata,
+    dc.language,
+    (1 - (dc.embedding <=> query_embedding))::double precision AS similarity,
+    ts_rank_cd(dc.fts, kq.q, 1)::double precision AS keyword_rank,
+    (
+      (
+        COALESCE(1.0 / (rrf_k + v.rank_ix), 0.0)
+        + COALESCE(1.0 / (rrf_k + k.rank_ix), 0.0)
+      )
+      * CASE
+          WHEN language_mode = 'boost' AND dc.language = query_language THEN 1.0 + language_boost
+          ELSE 1.0
+        END
+    )::double precision AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN document_chunks dc ON dc.id = COALESCE(v.id, k.id)
+  CROSS JOIN keyword_query kq
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
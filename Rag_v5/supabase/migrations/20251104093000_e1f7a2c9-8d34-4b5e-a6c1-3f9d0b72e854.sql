@@ -0,0 +1,135 @@
+-- Queue of document processing jobs, worked on by the process-worker function.
+-- A worker claims a job with a lease; a job whose lease expires is claimed
+-- again. last_chunk_index is the checkpoint: chunks up to it are already
+-- staged, so a new attempt resumes after it instead of starting over.
+CREATE TABLE IF NOT EXISTS public.processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- Chunker and embedding overrides, see ProcessingOptions
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_chunk_index INTEGER,
+  worker_id TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  -- Failed attempts are retried with a backoff
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one pending job per document, so two runs never stage chunks side by side
+CREATE UNIQUE INDEX IF NOT EXISTS processing_jobs_active_document_idx
+  ON public.processing_jobs (document_id)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS processing_jobs_status_available_at_idx
+  ON public.processing_jobs (status, available_at);
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own processing jobs"
+  ON public.processing_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can enqueue jobs for their own documents"
+  ON public.processing_jobs FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'queued'
+    AND EXISTS (
+      SELECT 1 FROM public.documents
+      WHERE documents.id = processing_jobs.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_processing_jobs_updated_at
+  BEFORE UPDATE ON public.processing_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Documents left 'processing' by the former single-request processing get a job
+INSERT INTO public.processing_jobs (document_id, user_id)
+SELECT id, user_id
+FROM public.documents
+WHERE status = 'processing';
+
+-- Claims the oldest runnable job for a worker: a queued job whose backoff has
+-- passed, or a running job whose worker stopped renewing its lease. Abandoned
+-- jobs without attempts left are failed together with their document first,
+-- so no document stays 'processing' forever. Returns no row when idle.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  WITH exhausted AS (
+    UPDATE public.processing_jobs
+    SET
+      status = 'failed',
+      last_error = COALESCE(last_error, 'Processing timed out'),
+      worker_id = NULL,
+      lease_expires_at = NULL,
+      finished_at = now()
+    WHERE status = 'running' AND lease_expires_at < now() AND attempts >= max_attempts
+    RETURNING document_id, last_error
+  ),
+  failed_documents AS (
+    UPDATE public.documents d
+    SET status = 'failed', error_message = e.last_error
+    FROM exhausted e
+    WHERE d.id = e.document_id
+  )
+  DELETE FROM public.document_chunks dc
+  USING exhausted e
+  WHERE dc.document_id = e.document_id AND dc.staged;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET
+    status = 'running',
+    attempts = attempts + 1,
+    worker_id = p_worker_id,
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    started_at = COALESCE(started_at, now())
+  WHERE id = (
+    SELECT id
+    FROM public.processing_jobs
+    WHERE (status = 'queued' AND available_at <= now())
+       OR (status = 'running' AND lease_expires_at < now())
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_job(TEXT, INTEGER) TO service_role;
+
+-- Runs the worker every minute so released and retried jobs continue and
+-- abandoned ones are reclaimed. Expects the project URL and service role key
+-- as the Vault secrets 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'process-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,4 @@
+-- Streams document changes to the dashboard, so processing progress, failures
+-- and completion show up without reloading. Realtime applies the table's RLS
+-- policies, so users only receive changes to their own documents.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
@@ -0,0 +1,5 @@
+-- Documents added from the web keep the URL they were fetched from and the
+-- time of the snapshot stored in the documents bucket. Both are null for uploads.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS source_url TEXT,
+  ADD COLUMN IF NOT EXISTS fetched_at TIMESTAMP WITH TIME ZONE;
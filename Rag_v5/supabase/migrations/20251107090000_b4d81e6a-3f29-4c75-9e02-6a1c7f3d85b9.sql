@@ -0,0 +1,72 @@
+-- Scheduled re-sync of documents added from a URL. sync_interval_hours is the
+-- refresh schedule, null meaning the document is never re-synced. content_hash
+-- is the SHA-256 of the stored snapshot, so an unchanged source is detected
+-- without processing it again.
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS sync_interval_hours INTEGER CHECK (sync_interval_hours > 0),
+  ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_sync_error TEXT,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_next_sync_at_idx
+  ON public.documents (next_sync_at)
+  WHERE sync_interval_hours IS NOT NULL;
+
+-- SHA-256 of the chunk's content. Processing reuses the embedding of a live
+-- chunk with the same hash and model, so a re-sync only embeds changed chunks.
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+UPDATE public.document_chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_content_hash_idx
+  ON public.document_chunks (document_id, content_hash);
+
+-- Claims documents whose next sync is due and moves their next_sync_at one
+-- interval ahead, so concurrent scheduler runs never sync a document twice.
+-- Documents that are still being processed wait for the next run.
+CREATE OR REPLACE FUNCTION public.claim_document_syncs(p_limit INTEGER)
+RETURNS SETOF public.documents
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.documents
+  SET next_sync_at = now() + make_interval(hours => sync_interval_hours)
+  WHERE id IN (
+    SELECT id
+    FROM public.documents
+    WHERE sync_interval_hours IS NOT NULL
+      AND source_url IS NOT NULL
+      AND status <> 'processing'
+      AND COALESCE(next_sync_at, now()) <= now()
+    ORDER BY next_sync_at NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_document_syncs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_document_syncs(INTEGER) TO service_role;
+
+-- Checks for due documents every 15 minutes, using the same Vault secrets as
+-- the process-worker schedule
+SELECT cron.schedule(
+  'sync-documents',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-documents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
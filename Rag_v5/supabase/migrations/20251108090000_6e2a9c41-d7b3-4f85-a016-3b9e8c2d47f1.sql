@@ -0,0 +1,4 @@
+-- The chunks a job produces, stored by its first slice. Later slices resume
+-- from this plan instead of downloading, extracting and OCRing the file again.
+ALTER TABLE public.processing_jobs
+  ADD COLUMN IF NOT EXISTS chunk_plan JSONB;
@@ -0,0 +1,6 @@
+-- Browser clients may only name the document when enqueueing a job. Options,
+-- attempts, checkpoint and schedule are set by the edge functions, which
+-- validate them; a forged chunk size or checkpoint would otherwise stall the
+-- shared worker or commit an incomplete chunk set.
+REVOKE INSERT ON public.processing_jobs FROM anon, authenticated;
+GRANT INSERT (document_id, user_id) ON public.processing_jobs TO authenticated;
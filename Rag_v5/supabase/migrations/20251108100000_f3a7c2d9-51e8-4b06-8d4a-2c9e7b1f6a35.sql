@@ -0,0 +1,141 @@
+-- Approximate nearest neighbour indexes per embedding model. The embedding
+-- column has no fixed dimensions, so each index covers one model's chunks and
+-- casts them to that model's dimensions. hybrid_match_document_chunks uses the
+-- same model literal and cast, which lets the planner pick the index.
+--
+-- text-embedding-3-large (3072 dimensions) exceeds the 2000 dimensions hnsw
+-- indexes on vector. Deployments with a local model add an index of the same
+-- form, e.g. for a 1024-dimensional model:
+--   CREATE INDEX ON public.document_chunks
+--     USING hnsw ((embedding::vector(1024)) vector_cosine_ops)
+--     WHERE embedding_model = 'local:bge-m3' AND NOT staged;
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_3_small_idx
+  ON public.document_chunks
+  USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_model = 'text-embedding-3-small' AND NOT staged;
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_ada_002_idx
+  ON public.document_chunks
+  USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_model = 'text-embedding-ada-002' AND NOT staged;
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_test_hash_idx
+  ON public.document_chunks
+  USING hnsw ((embedding::vector(256)) vector_cosine_ops)
+  WHERE embedding_model = 'test:hash' AND NOT staged;
+
+-- Same signature and results as before. The query is built per call with the
+-- model as a literal and the embedding cast to the query's dimensions, because
+-- a partial expression index is only used when both appear in the query as
+-- written in the index; a bind parameter would not match the index predicate.
+-- Both branches read document_chunks directly, as a shared CTE is materialized
+-- and hides the indexes.
+CREATE OR REPLACE FUNCTION public.hybrid_match_document_chunks(
+  query_text text,
+  query_embedding vector,
+  match_count integer,
+  filter_document_ids uuid[],
+  match_threshold double precision DEFAULT 0.3,
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60,
+  query_language text DEFAULT NULL,
+  language_mode text DEFAULT 'off',
+  language_boost double precision DEFAULT 0.25,
+  query_embedding_model text DEFAULT 'text-embedding-3-small'
+)
+RETURNS TABLE(
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  language text,
+  similarity double precision,
+  keyword_rank double precision,
+  score double precision
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_dimensions INTEGER := vector_dims(query_embedding);
+BEGIN
+  RETURN QUERY EXECUTE format(
+    $query$
+    WITH keyword_query AS (
+      -- Match any query term rather than all of them; ranking rewards chunks matching more terms
+      SELECT
+        replace(plainto_tsquery('german', $1)::text, ' & ', ' | ')::tsquery
+        || replace(plainto_tsquery('english', $1)::text, ' & ', ' | ')::tsquery AS q
+    ),
+    vector_matches AS (
+      SELECT
+        dc.id,
+        row_number() OVER (ORDER BY dc.embedding::vector(%1$s) <=> $2::vector(%1$s)) AS rank_ix
+      FROM document_chunks dc
+      WHERE
+        dc.document_id = ANY($4)
+        AND NOT dc.staged
+        -- Vectors of different models are not comparable and may differ in dimensions
+        AND dc.embedding_model = %2$L
+        AND ($9 <> 'filter' OR $8 IS NULL OR dc.language IS NULL OR dc.language = $8)
+        AND 1 - (dc.embedding::vector(%1$s) <=> $2::vector(%1$s)) > $5
+      ORDER BY dc.embedding::vector(%1$s) <=> $2::vector(%1$s)
+      LIMIT $6
+    ),
+    keyword_matches AS (
+      SELECT
+        dc.id,
+        row_number() OVER (ORDER BY ts_rank_cd(dc.fts, kq.q, 1) DESC) AS rank_ix
+      FROM document_chunks dc, keyword_query kq
+      WHERE
+        dc.document_id = ANY($4)
+        AND NOT dc.staged
+        AND dc.embedding_model = %2$L
+        AND ($9 <> 'filter' OR $8 IS NULL OR dc.language IS NULL OR dc.language = $8)
+        AND dc.fts @@ kq.q
+      ORDER BY ts_rank_cd(dc.fts, kq.q, 1) DESC
+      LIMIT $6
+    )
+    SELECT
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.metadata,
+      dc.language,
+      (1 - (dc.embedding <=> $2))::double precision AS similarity,
+      ts_rank_cd(dc.fts, kq.q, 1)::double precision AS keyword_rank,
+      (
+        (
+          COALESCE(1.0 / ($7 + v.rank_ix), 0.0)
+          + COALESCE(1.0 / ($7 + k.rank_ix), 0.0)
+        )
+        * CASE
+            WHEN $9 = 'boost' AND dc.language = $8 THEN 1.0 + $10
+            ELSE 1.0
+          END
+      )::double precision AS score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.id = k.id
+    JOIN document_chunks dc ON dc.id = COALESCE(v.id, k.id)
+    CROSS JOIN keyword_query kq
+    ORDER BY score DESC
+    LIMIT $3
+    $query$,
+    v_dimensions,
+    query_embedding_model
+  )
+  USING
+    query_text,
+    query_embedding,
+    match_count,
+    filter_document_ids,
+    match_threshold,
+    candidate_count,
+    rrf_k,
+    query_language,
+    language_mode,
+    language_boost;
+END;
+$$;
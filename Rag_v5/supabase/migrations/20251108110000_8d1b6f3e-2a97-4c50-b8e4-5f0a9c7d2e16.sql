@@ -0,0 +1,58 @@
+-- rag-chat stores the question before retrieval and generation, so a failed or
+-- interrupted answer never loses the user's turn. The answer is inserted as a
+-- separate message once it is complete.
+DROP FUNCTION IF EXISTS public.persist_chat_turn(UUID, UUID, JSONB, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, JSONB);
+
+-- Creates the conversation when needed and inserts the user message in one
+-- transaction, so a new conversation never exists without its first question
+CREATE OR REPLACE FUNCTION public.persist_user_message(
+  p_user_id UUID,
+  p_conversation_id UUID,
+  p_new_conversation JSONB,
+  p_content TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_conversation_id UUID := p_conversation_id;
+  user_message public.messages;
+BEGIN
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO public.conversations (user_id, title, agent_id, context_id, context_version_id, rag_enabled)
+    VALUES (
+      p_user_id,
+      p_new_conversation->>'title',
+      (p_new_conversation->>'agent_id')::UUID,
+      (p_new_conversation->>'context_id')::UUID,
+      (p_new_conversation->>'context_version_id')::UUID,
+      COALESCE((p_new_conversation->>'rag_enabled')::BOOLEAN, true)
+    )
+    RETURNING id INTO v_conversation_id;
+  ELSE
+    -- Bumps updated_at so the conversation list shows recent chats first
+    UPDATE public.conversations
+    SET updated_at = now()
+    WHERE id = v_conversation_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Conversation % not found', v_conversation_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, role, content)
+  VALUES (v_conversation_id, 'user', p_content)
+  RETURNING * INTO user_message;
+
+  RETURN jsonb_build_object(
+    'conversation_id', v_conversation_id,
+    'user_message', to_jsonb(user_message)
+  );
+END;
+$$;
+
+-- Takes the user id as an argument, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.persist_user_message(UUID, UUID, JSONB, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.persist_user_message(UUID, UUID, JSONB, TEXT)
+  TO service_role;